@@ -36,32 +36,14 @@ function main(): void {
   let b2 = createContent('blue');
   let y2 = createContent('yellow');
 
-  GridPanel.setRow(r1, 0);
-  GridPanel.setColumn(r1, 0);
-
-  GridPanel.setRow(g1, 1);
-  GridPanel.setColumn(g1, 0);
-
-  GridPanel.setRow(b1, 2);
-  GridPanel.setColumn(b1, 0);
-
-  GridPanel.setRow(y1, 0);
-  GridPanel.setColumn(y1, 1);
-  GridPanel.setRowSpan(y1, 2);
-  GridPanel.setColumnSpan(y1, 3);
-
-  GridPanel.setRow(r2, 2);
-  GridPanel.setColumn(r2, 1);
-
-  GridPanel.setRow(g2, 2);
-  GridPanel.setColumn(g2, 2);
-
-  GridPanel.setRow(b2, 0);
-  GridPanel.setColumn(b2, 4);
-  GridPanel.setRowSpan(b2, 3);
-
-  GridPanel.setRow(y2, 2);
-  GridPanel.setColumn(y2, 3);
+  GridPanel.setArea(r1, 'r1');
+  GridPanel.setArea(g1, 'g1');
+  GridPanel.setArea(b1, 'b1');
+  GridPanel.setArea(y1, 'y1');
+  GridPanel.setArea(r2, 'r2');
+  GridPanel.setArea(g2, 'g2');
+  GridPanel.setArea(b2, 'b2');
+  GridPanel.setArea(y2, 'y2');
 
   let panel = new GridPanel();
   panel.id = 'main';
@@ -80,6 +62,12 @@ function main(): void {
     new Spec({ minSize: 50 })
   ];
 
+  panel.templateAreas = [
+    'r1 y1 y1 y1 b2',
+    'g1 y1 y1 y1 b2',
+    'b1 r2 g2 y2 b2'
+  ];
+
   panel.addChild(r1);
   panel.addChild(g1);
   panel.addChild(b1);
@@ -8,11 +8,15 @@
 'use strict';
 
 import {
-  BoxSizer, boxCalc
+  BoxSizer
 } from 'phosphor-boxengine';
 
 import {
-  IBoxSizing, ISizeLimits, boxSizing, sizeLimits
+  IDisposable
+} from 'phosphor-disposable';
+
+import {
+  IBoxSizing, ISizeLimits, boxSizing, overrideCursor, sizeLimits
 } from 'phosphor-domutil';
 
 import {
@@ -31,20 +35,229 @@ import {
   ChildIndexMessage, ChildMessage, Panel, ResizeMessage, Widget
 } from 'phosphor-widget';
 
+import {
+  Alignment, ICell, IGridItem, IGridLayout, IRect, ISpecOptions, Sizing, Spec,
+  arrangeTracks, cellCollapsed, cellsRect, fitTracks, gutterCount,
+  horizontalMargins, toBasis, verticalMargins
+} from './layout';
+
 import './index.css';
 
 
+export {
+  Alignment, ICell, IGridItem, IGridLayout, IGridLayoutOptions, IGridSpacing,
+  IRect, ISpecOptions, Sizing, Spec, computeGridLayout
+} from './layout';
+
+
 /**
  * The class name added to GridPanel instances.
  */
 const GRID_PANEL_CLASS = 'p-GridPanel';
 
+/**
+ * The class name added to grid panel resize handles.
+ */
+const HANDLE_CLASS = 'p-GridPanel-handle';
+
+/**
+ * The class name added to resize handles between rows.
+ */
+const ROW_CLASS = 'p-mod-row';
+
+/**
+ * The class name added to resize handles between columns.
+ */
+const COLUMN_CLASS = 'p-mod-column';
+
+/**
+ * The class name added to the drop indicator of a child drag.
+ */
+const DROP_INDICATOR_CLASS = 'p-GridPanel-dropIndicator';
+
+/**
+ * The class name added to a child whose cells are all collapsed.
+ */
+const COLLAPSED_CLASS = 'p-mod-collapsed';
+
+/**
+ * The class name added to a child while it is being dragged.
+ */
+const DRAGGING_CLASS = 'p-mod-dragging';
+
+/**
+ * The class name added to the debug overlay of a grid panel.
+ */
+const DEBUG_CLASS = 'p-GridPanel-debug';
+
+/**
+ * The class name added to a track in the debug overlay.
+ */
+const DEBUG_TRACK_CLASS = 'p-GridPanel-debugTrack';
+
+/**
+ * The class name added to a spacing gutter in the debug overlay.
+ */
+const DEBUG_GUTTER_CLASS = 'p-GridPanel-debugGutter';
+
+/**
+ * The class name added to a cell index label in the debug overlay.
+ */
+const DEBUG_CELL_CLASS = 'p-GridPanel-debugCell';
+
+/**
+ * The class name added to a child highlight in the debug overlay.
+ */
+const DEBUG_CHILD_CLASS = 'p-GridPanel-debugChild';
+
+/**
+ * The distance the mouse must move before a child drag starts.
+ */
+const DRAG_THRESHOLD = 5;
+
+
+/**
+ * An enum of the supported grid panel auto flow modes.
+ */
+export
+enum AutoFlow {
+  /**
+   * Children are not auto placed.
+   */
+  None,
+
+  /**
+   * Children are auto placed by filling each row in turn.
+   */
+  Row,
+
+  /**
+   * Children are auto placed by filling each column in turn.
+   */
+  Column,
+
+  /**
+   * Like `Row`, but earlier holes in the grid are filled when possible.
+   */
+  RowDense,
+
+  /**
+   * Like `Column`, but earlier holes in the grid are filled when possible.
+   */
+  ColumnDense,
+}
+
+
+/**
+ * An enum of the supported grid panel column directions.
+ */
+export
+enum Direction {
+  /**
+   * The direction is taken from the computed style of the panel node.
+   */
+  Auto,
+
+  /**
+   * The first column is placed at the left edge of the panel.
+   */
+  LeftToRight,
+
+  /**
+   * The first column is placed at the right edge of the panel.
+   */
+  RightToLeft,
+}
+
+
+/**
+ * An enum of the supported grid panel overlap policies.
+ */
+export
+enum OverlapPolicy {
+  /**
+   * Overlapping children are allowed.
+   */
+  Allow,
+
+  /**
+   * Overlapping children are allowed.
+   *
+   * This behaves like `Allow`. The overlaps are reported by the
+   * `overlapDetected` signal of the panel.
+   */
+  Warn,
+
+  /**
+   * Placing a child into occupied cells causes an error to be thrown.
+   *
+   * The error is thrown by the call which changes the placement.
+   */
+  Error,
+
+  /**
+   * Overlapping children are moved to the next free cells.
+   */
+  Displace,
+}
+
 
 /**
  * A panel which arranges its children into a 2D grid.
  */
 export
 class GridPanel extends Panel {
+  /**
+   * A signal emitted when the user finishes resizing tracks.
+   *
+   * **See also:** [[tracksResized]]
+   */
+  static tracksResizedSignal = new Signal<GridPanel, ITracksResizedArgs>();
+
+  /**
+   * A signal emitted when the active breakpoint layout changes.
+   *
+   * **See also:** [[layoutChanged]], [[breakpoints]]
+   */
+  static layoutChangedSignal = new Signal<GridPanel, IBreakpoint>();
+
+  /**
+   * A signal emitted when the state of a breakpoint cannot be restored.
+   *
+   * **See also:** [[breakpointFailed]], [[breakpoints]]
+   */
+  static breakpointFailedSignal = new Signal<GridPanel, IBreakpointFailedArgs>();
+
+  /**
+   * A signal emitted when the panel finishes a layout of its children.
+   *
+   * #### Notes
+   * This signal is distinct from [[layoutChangedSignal]], which is
+   * emitted when the active breakpoint changes.
+   *
+   * The signal is emitted as soon as the layout is computed. When the
+   * [[animationDuration]] is non-zero, the rects are the target rects
+   * of the children, and the children may still be moving towards
+   * them when the signal is emitted.
+   *
+   * **See also:** [[layoutCompleted]], [[cellRect]]
+   */
+  static layoutCompletedSignal = new Signal<GridPanel, ILayoutCompletedArgs>();
+
+  /**
+   * A signal emitted when the user drops a dragged child on a cell.
+   *
+   * **See also:** [[childMoveRequested]], [[draggable]]
+   */
+  static childMoveRequestedSignal = new Signal<GridPanel, IChildMoveRequestedArgs>();
+
+  /**
+   * A signal emitted when the layout finds overlapping children.
+   *
+   * **See also:** [[overlapDetected]], [[overlapPolicy]]
+   */
+  static overlapDetectedSignal = new Signal<GridPanel, IOverlapDetectedArgs>();
+
   /**
    * The property descriptor for the row specifications.
    *
@@ -83,6 +296,50 @@ class GridPanel extends Panel {
     changed: (owner, old, value) => { owner._onColSpecsChanged(old, value); },
   });
 
+  /**
+   * The property descriptor for the implicit row specification.
+   *
+   * This controls the layout of the rows which are created on demand
+   * for children placed beyond the last explicit row.
+   *
+   * #### Notes
+   * When this value is `null`, no implicit rows are created and the
+   * children beyond the last row are clamped to the last row.
+   *
+   * A single spec instance is shared by all of the implicit rows.
+   *
+   * The default value is `null`.
+   *
+   * **See also:** [[autoRowSpec]]
+   */
+  static autoRowSpecProperty = new Property<GridPanel, Spec>({
+    name: 'autoRowSpec',
+    value: null,
+    changed: (owner, old, value) => { owner._onAutoSpecChanged(old, value); },
+  });
+
+  /**
+   * The property descriptor for the implicit column specification.
+   *
+   * This controls the layout of the columns which are created on
+   * demand for children placed beyond the last explicit column.
+   *
+   * #### Notes
+   * When this value is `null`, no implicit columns are created and
+   * the children beyond the last column are clamped to that column.
+   *
+   * A single spec instance is shared by all of the implicit columns.
+   *
+   * The default value is `null`.
+   *
+   * **See also:** [[autoColumnSpec]]
+   */
+  static autoColumnSpecProperty = new Property<GridPanel, Spec>({
+    name: 'autoColumnSpec',
+    value: null,
+    changed: (owner, old, value) => { owner._onAutoSpecChanged(old, value); },
+  });
+
   /**
    * The property descriptor for the grid panel row spacing.
    *
@@ -97,7 +354,7 @@ class GridPanel extends Panel {
     name: 'rowSpacing',
     value: 8,
     coerce: (owner, value) => Math.max(0, value | 0),
-    changed: owner => { postMessage(owner, Panel.MsgLayoutRequest); },
+    changed: owner => { owner._requestLayout(); },
   });
 
   /**
@@ -114,943 +371,4352 @@ class GridPanel extends Panel {
     name: 'columnSpacing',
     value: 8,
     coerce: (owner, value) => Math.max(0, value | 0),
-    changed: owner => { postMessage(owner, Panel.MsgLayoutRequest); },
+    changed: owner => { owner._requestLayout(); },
   });
 
   /**
-   * The property descriptor for a widget's grid row index.
+   * The property descriptor for the grid panel resizable flag.
+   *
+   * This controls whether the user can resize the rows and columns
+   * by dragging the handles in the spacing between them.
    *
    * #### Notes
-   * This value is an integer clamped to a lower bound of `0`.
+   * Dragging a handle updates the `sizeBasis` of the specs along the
+   * dragged axis to match the current layout, and then transfers the
+   * drag distance between the two tracks adjacent to the handle. The
+   * min and max size of the tracks are respected while dragging.
    *
-   * The default value is `0`.
+   * The `stretch` of the two adjacent tracks is cleared when the drag
+   * starts, so that they follow the mouse exactly. Pressing `Escape`
+   * during the drag restores the original specs.
    *
-   * **See also:** [[getRow]], [[setRow]]
+   * The default value is `false`.
+   *
+   * **See also:** [[resizable]], [[tracksResized]]
    */
-  static rowProperty = new Property<Widget, number>({
-    name: 'row',
-    value: 0,
-    coerce: (owner, value) => Math.max(0, value | 0),
-    changed: onChildPropertyChanged,
+  static resizableProperty = new Property<GridPanel, boolean>({
+    name: 'resizable',
+    value: false,
+    changed: owner => { owner._requestLayout(); },
   });
 
   /**
-   * The property descriptor for a widget's grid column index.
+   * The property descriptor for the grid panel column direction.
+   *
+   * This controls whether the columns are laid out from the left or
+   * the right edge of the panel.
+   *
+   * #### Notes
+   * A right-to-left direction mirrors the column positions, the drag
+   * direction of the column handles, and the meaning of the start and
+   * end horizontal alignments. The column indices of the children and
+   * specs are not changed, and the cell margins are not mirrored.
+   *
+   * When the value is `Direction.Auto`, the computed CSS `direction`
+   * of the panel node is read each time a layout request is handled.
+   *
+   * The default value is `Direction.Auto`.
+   *
+   * **See also:** [[direction]]
+   */
+  static directionProperty = new Property<GridPanel, Direction>({
+    name: 'direction',
+    value: Direction.Auto,
+    changed: owner => { owner._requestLayout(); },
+  });
+
+  /**
+   * The property descriptor for the grid panel animation duration.
+   *
+   * This controls the time, in milliseconds, over which the children
+   * are moved from their old geometry to their new geometry when the
+   * layout of the panel changes.
    *
    * #### Notes
+   * A value of `0` disables the animation, and the children are moved
+   * to their new geometry immediately.
+   *
+   * An animated child receives a single resize message at the end of
+   * the animation. A layout which occurs while an animation is still
+   * in progress cancels it, and starts a new animation from the
+   * current geometry of the children.
+   *
    * This value is an integer clamped to a lower bound of `0`.
    *
    * The default value is `0`.
    *
-   * **See also:** [[getColumn]], [[setColumn]]
+   * **See also:** [[animationDuration]]
    */
-  static columnProperty = new Property<Widget, number>({
-    name: 'column',
+  static animationDurationProperty = new Property<GridPanel, number>({
+    name: 'animationDuration',
     value: 0,
     coerce: (owner, value) => Math.max(0, value | 0),
-    changed: onChildPropertyChanged,
   });
 
   /**
-   * The property descriptor for a widget's grid row span.
+   * The property descriptor for the grid panel draggable flag.
+   *
+   * This controls whether the user can move a child to another cell
+   * by dragging it with the mouse.
    *
    * #### Notes
-   * This value is an integer clamped to a lower bound of `1`.
+   * While a child is dragged, a drop indicator element is shown over
+   * the cells which the child would occupy if dropped. The indicator
+   * uses the `p-GridPanel-dropIndicator` class and renders above all
+   * of the children. The dragged child is given the `p-mod-dragging`
+   * class.
    *
-   * The default value is `1`.
+   * When the child is dropped, the [[childMoveRequested]] signal is
+   * emitted. Unless a handler sets the `cancel` flag of the args, the
+   * `row` and `column` of the child are then updated, and its `area`
+   * is cleared.
    *
-   * **See also:** [[getRowSpan]], [[setRowSpan]]
+   * Pressing `Escape` during the drag cancels it without a drop.
+   *
+   * The default value is `false`.
+   *
+   * **See also:** [[draggable]], [[childMoveRequested]]
    */
-  static rowSpanProperty = new Property<Widget, number>({
-    name: 'rowSpan',
-    value: 1,
-    coerce: (owner, value) => Math.max(1, value | 0),
-    changed: onChildPropertyChanged,
+  static draggableProperty = new Property<GridPanel, boolean>({
+    name: 'draggable',
+    value: false,
+    changed: owner => { owner._releaseMouse(); },
   });
 
   /**
-   * The property descriptor for a widget's grid column span.
+   * The property descriptor for the grid panel collapse hidden flag.
+   *
+   * This controls whether the rows and columns which contain only
+   * hidden children are collapsed.
    *
    * #### Notes
-   * This value is an integer clamped to a lower bound of `1`.
+   * A row or column which is covered only by hidden children is
+   * collapsed as if its spec were `collapsed`. A row or column which
+   * is not covered by any child is not affected.
    *
-   * The default value is `1`.
+   * Hidden children never contribute to the content size of the
+   * panel, regardless of this value.
    *
-   * **See also:** [[getColumnSpan]], [[setColumnSpan]]
+   * The default value is `false`.
+   *
+   * **See also:** [[collapseHidden]], [[Spec.collapsed]]
    */
-  static columnSpanProperty = new Property<Widget, number>({
-    name: 'columnSpan',
-    value: 1,
-    coerce: (owner, value) => Math.max(1, value | 0),
-    changed: onChildPropertyChanged,
+  static collapseHiddenProperty = new Property<GridPanel, boolean>({
+    name: 'collapseHidden',
+    value: false,
+    changed: owner => { owner._requestLayout(); },
   });
 
   /**
-   * Get the grid row index for the given widget.
-   *
-   * @param widget - The widget of interest.
+   * The property descriptor for the grid panel overlap policy.
    *
-   * @returns The grid row index of the widget.
+   * This controls how the panel handles children which are placed
+   * into the same grid cells.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowProperty]].
-   */
-  static getRow(widget: Widget): number {
-    return GridPanel.rowProperty.get(widget);
-  }
-
-  /**
-   * Set the grid row index for the given widget.
+   * Overlaps are detected between the children each time the panel
+   * handles a layout request. The cells are clamped to the last track
+   * first, unless the axis has an implicit track spec. An auto placed
+   * child only overlaps another child when it is placed beyond the
+   * last track and clamped, and that overlap is also detected.
    *
-   * @param widget - The widget of interest.
+   * The [[overlapDetected]] signal is emitted for every policy when
+   * an overlap is found. The `Warn` policy does not log the overlap,
+   * so it behaves like the `Allow` policy.
    *
-   * @param value - The value for the grid row index.
+   * The `Error` policy checks for overlaps when the placement of a
+   * child is changed, and throws an error from the call which made
+   * the change, such as [[setRow]] or [[restoreState]]. The change is
+   * still applied. Within a batch, the check is deferred to the
+   * [[endUpdate]] call which ends the outermost batch. Overlaps
+   * caused by other changes, such as adding a child, changing the
+   * track specs or activating a breakpoint, are only reported by the
+   * [[overlapDetected]] signal, since the panel never throws an error
+   * while it handles a layout request.
    *
-   * #### Notes
-   * This is a pure delegate to the [[rowProperty]].
+   * The `Displace` policy moves each child which overlaps an earlier
+   * child to the next free cells, following the `autoFlow` direction
+   * or row order if auto flow is disabled. The attached row and column
+   * of a displaced child are not modified.
+   *
+   * The default value is `OverlapPolicy.Allow`.
+   *
+   * **See also:** [[overlapPolicy]], [[overlapDetected]]
    */
-  static setRow(widget: Widget, value: number): void {
-    GridPanel.rowProperty.set(widget, value);
-  }
+  static overlapPolicyProperty = new Property<GridPanel, OverlapPolicy>({
+    name: 'overlapPolicy',
+    value: OverlapPolicy.Allow,
+    changed: owner => { owner._requestLayout(); },
+  });
 
   /**
-   * Get the grid column index for the given widget.
-   *
-   * @param widget - The widget of interest.
+   * The property descriptor for the grid panel template areas.
    *
-   * @returns The grid column index of the widget.
+   * This controls the named areas which children can be placed into
+   * using the [[areaProperty]].
    *
    * #### Notes
-   * This is a pure delegate to the [[columnProperty]].
+   * Each string in the array describes a row of the grid, and holds
+   * one whitespace separated area name for each column of the grid.
+   * A name which consists only of periods denotes an unnamed cell.
+   *
+   * ```typescript
+   * panel.templateAreas = [
+   *   'header header',
+   *   'nav    main'
+   * ];
+   * ```
+   *
+   * Every row must have the same number of cells, and each named area
+   * must form a filled rectangle. An error is thrown for a template
+   * which violates these rules.
+   *
+   * The template does not create tracks. The row and column specs
+   * should provide a track for each row and column of the template.
+   *
+   * This property creates a frozen shallow copy of the assigned array.
+   *
+   * The default value is an empty array.
+   *
+   * **See also:** [[templateAreas]]
    */
-  static getColumn(widget: Widget): number {
-    return GridPanel.columnProperty.get(widget);
-  }
+  static templateAreasProperty = new Property<GridPanel, string[]>({
+    name: 'templateAreas',
+    value: Object.freeze([]),
+    coerce: (owner, value) => coerceTemplateAreas(value),
+    changed: (owner, old, value) => { owner._onTemplateAreasChanged(value); },
+  });
 
   /**
-   * Set the grid column index for the given widget.
-   *
-   * @param widget - The widget of interest.
+   * The property descriptor for the grid panel breakpoints.
    *
-   * @param value - The value for the grid column index.
+   * This controls the layouts which the panel switches between as
+   * its size crosses the breakpoint thresholds.
    *
    * #### Notes
-   * This is a pure delegate to the [[columnProperty]].
+   * Whenever the panel is resized, the breakpoints are tested in
+   * order against the offset size of the panel, and the last one
+   * whose `minWidth` and `minHeight` are satisfied becomes active.
+   * When the active breakpoint changes, its layout state is applied
+   * with [[restoreState]] using the default widget `id` keys, and the
+   * [[layoutChanged]] signal is emitted. If no breakpoint matches,
+   * the current layout of the panel is left unchanged.
+   *
+   * If the state of a breakpoint fails validation when it becomes
+   * active, for example because a keyed child has been removed, the
+   * [[breakpointFailed]] signal is emitted with the validation error,
+   * and the breakpoint is made active without modifying the layout or
+   * emitting the [[layoutChanged]] signal.
+   *
+   * This property creates a frozen shallow copy of the assigned
+   * breakpoints array.
+   *
+   * **See also:** [[breakpoints]]
    */
-  static setColumn(widget: Widget, value: number): void {
-    GridPanel.columnProperty.set(widget, value);
-  }
+  static breakpointsProperty = new Property<GridPanel, IBreakpoint[]>({
+    name: 'breakpoints',
+    value: Object.freeze([]),
+    coerce: (owner, value) => Object.freeze(value ? value.slice() : []),
+    changed: owner => { owner._onBreakpointsChanged(); },
+  });
 
   /**
-   * Get the grid row span for the given widget.
-   *
-   * @param widget - The widget of interest.
+   * The property descriptor for the grid panel auto flow mode.
    *
-   * @returns The grid row span of the widget.
+   * This controls how children without an explicit placement are
+   * placed into the free cells of the grid.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowSpanProperty]].
+   * When auto flow is enabled, a child is auto placed if its attached
+   * [[autoPlaceProperty]] is `true` and it is not placed into a
+   * template area. The row and column of an auto placed child are
+   * ignored, and are not modified by the placement.
+   * The explicitly placed children are placed first, and the rest are
+   * then placed in order into the next free cells which fit their
+   * spans.
+   *
+   * A child which does not fit within the extent of the grid along
+   * the flow direction is placed beyond the last track, where it is
+   * either clamped to the last track, or given implicit tracks when
+   * the [[autoRowSpecProperty]] or [[autoColumnSpecProperty]] is set.
+   * A clamped child may overlap another child, which is reported by
+   * the [[overlapDetected]] signal.
+   *
+   * The default value is `AutoFlow.None`.
+   *
+   * **See also:** [[autoFlow]]
    */
-  static getRowSpan(widget: Widget): number {
-    return GridPanel.rowSpanProperty.get(widget);
-  }
+  static autoFlowProperty = new Property<GridPanel, AutoFlow>({
+    name: 'autoFlow',
+    value: AutoFlow.None,
+    changed: owner => { owner._requestLayout(); },
+  });
 
   /**
-   * Set the grid row span for the given widget.
+   * The property descriptor for the grid panel debug flag.
    *
-   * @param widget - The widget of interest.
-   *
-   * @param value - The grid row span for the widget.
+   * This controls whether the panel renders a debug overlay of its
+   * grid on top of the children.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowSpanProperty]].
+   * The overlay shows the tracks and spacing gutters, the row and
+   * column index of each cell, and the min, basis, max and actual
+   * size of each track. A child whose size limits prevent it from
+   * filling its cell, less its margins, is highlighted.
+   *
+   * The overlay is redrawn after each layout and ignores the mouse.
+   * The nodes of the overlay are reused between layouts, and the
+   * overlay is stacked above the children of the panel.
+   * Only the highlights are drawn when the children are stacked.
+   *
+   * The overlay is drawn for the target rects of a layout. When the
+   * [[animationDuration]] is non-zero, the highlights show where the
+   * children will be placed, not where they are during the animation.
+   *
+   * The default value is `false`.
+   *
+   * **See also:** [[debug]]
    */
-  static setRowSpan(widget: Widget, value: number): void {
-    GridPanel.rowSpanProperty.set(widget, value);
-  }
+  static debugProperty = new Property<GridPanel, boolean>({
+    name: 'debug',
+    value: false,
+    changed: owner => { owner._removeDebugOverlay(); owner._requestUpdate(); },
+  });
 
   /**
-   * Get the grid column span for the given widget.
+   * The property descriptor for a widget's grid row index.
    *
-   * @param widget - The widget of interest.
+   * #### Notes
+   * This value is an integer clamped to a lower bound of `0`.
    *
-   * @returns The grid column span of the widget.
+   * The default value is `0`.
    *
-   * #### Notes
-   * This is a pure delegate to the [[columnSpanProperty]].
+   * **See also:** [[getRow]], [[setRow]]
    */
-  static getColumnSpan(widget: Widget): number {
-    return GridPanel.columnSpanProperty.get(widget);
-  }
+  static rowProperty = new Property<Widget, number>({
+    name: 'row',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value | 0),
+    changed: child => { GridPanel._onChildPlacementChanged(child); },
+  });
 
   /**
-   * Set the grid column span for the given widget.
+   * The property descriptor for a widget's grid column index.
    *
-   * @param widget - The widget of interest.
+   * #### Notes
+   * This value is an integer clamped to a lower bound of `0`.
    *
-   * @param value - The grid column span for the widget.
+   * The default value is `0`.
    *
-   * #### Notes
-   * This is a pure delegate to the [[columnSpanProperty]].
+   * **See also:** [[getColumn]], [[setColumn]]
    */
-  static setColumnSpan(widget: Widget, value: number): void {
-    GridPanel.columnSpanProperty.set(widget, value);
-  }
+  static columnProperty = new Property<Widget, number>({
+    name: 'column',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value | 0),
+    changed: child => { GridPanel._onChildPlacementChanged(child); },
+  });
 
   /**
-   * Construct a new grid panel.
+   * The property descriptor for a widget's grid row span.
+   *
+   * #### Notes
+   * This value is an integer clamped to a lower bound of `1`.
+   *
+   * The default value is `1`.
+   *
+   * **See also:** [[getRowSpan]], [[setRowSpan]]
    */
-  constructor() {
-    super();
-    this.addClass(GRID_PANEL_CLASS);
-  }
+  static rowSpanProperty = new Property<Widget, number>({
+    name: 'rowSpan',
+    value: 1,
+    coerce: (owner, value) => Math.max(1, value | 0),
+    changed: child => { GridPanel._onChildPlacementChanged(child); },
+  });
 
   /**
-   * Dispose of the resources held by the widget.
+   * The property descriptor for a widget's grid column span.
+   *
+   * #### Notes
+   * This value is an integer clamped to a lower bound of `1`.
+   *
+   * The default value is `1`.
+   *
+   * **See also:** [[getColumnSpan]], [[setColumnSpan]]
    */
-  dispose(): void {
-    this._rowStarts.length = 0;
-    this._colStarts.length = 0;
-    this._rowSizers.length = 0;
-    this._colSizers.length = 0;
-    super.dispose();
-  }
+  static columnSpanProperty = new Property<Widget, number>({
+    name: 'columnSpan',
+    value: 1,
+    coerce: (owner, value) => Math.max(1, value | 0),
+    changed: child => { GridPanel._onChildPlacementChanged(child); },
+  });
 
   /**
-   * Get the row specs for the grid panel.
+   * The property descriptor for a widget's grid area name.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowSpecsProperty]].
+   * When the name matches an area of the grid panel's template, the
+   * area determines the cells occupied by the widget, and the row,
+   * column, and span properties of the widget are ignored.
+   *
+   * The default value is an empty string.
+   *
+   * **See also:** [[getArea]], [[setArea]], [[templateAreasProperty]]
    */
-  get rowSpecs(): Spec[] {
-    return GridPanel.rowSpecsProperty.get(this);
-  }
+  static areaProperty = new Property<Widget, string>({
+    name: 'area',
+    value: '',
+    coerce: (owner, value) => value || '',
+    changed: child => { GridPanel._onChildPlacementChanged(child); },
+  });
 
   /**
-   * Set the row specs for the grid panel.
+   * The property descriptor for a widget's auto placement flag.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowSpecsProperty]].
+   * When the `autoFlow` of the grid panel is enabled, a widget with
+   * this flag set is placed into the next free cells which fit its
+   * spans, and its row and column are ignored. The flag has no effect
+   * when auto flow is disabled, or when the widget is placed into a
+   * template area.
+   *
+   * The default value is `false`.
+   *
+   * **See also:** [[getAutoPlace]], [[setAutoPlace]], [[autoFlowProperty]]
    */
-  set rowSpecs(value: Spec[]) {
-    GridPanel.rowSpecsProperty.set(this, value);
-  }
+  static autoPlaceProperty = new Property<Widget, boolean>({
+    name: 'autoPlace',
+    value: false,
+    changed: child => { GridPanel._onChildPlacementChanged(child); },
+  });
 
   /**
-   * Get the column specs for the grid panel.
+   * The property descriptor for a widget's horizontal cell alignment.
+   *
+   * This controls the horizontal position of a widget within its cell
+   * when the widget's size limits prevent it from filling the cell.
    *
    * #### Notes
-   * This is a pure delegate to the [[columnSpecsProperty]].
+   * A widget is always sized to fill as much of its cell as its size
+   * limits allow, so `Alignment.Start` and `Alignment.Stretch` place
+   * the widget identically. Set the CSS max size of the widget node
+   * to keep it from filling the cell.
+   *
+   * The default value is `Alignment.Stretch`.
+   *
+   * **See also:** [[getHorizontalAlignment]], [[setHorizontalAlignment]]
    */
-  get columnSpecs(): Spec[] {
-    return GridPanel.columnSpecsProperty.get(this);
-  }
+  static horizontalAlignmentProperty = new Property<Widget, Alignment>({
+    name: 'horizontalAlignment',
+    value: Alignment.Stretch,
+    changed: child => { GridPanel._onChildPositionChanged(child); },
+  });
 
   /**
-   * Set the column specs for the grid panel.
+   * The property descriptor for a widget's vertical cell alignment.
+   *
+   * This controls the vertical position of a widget within its cell
+   * when the widget's size limits prevent it from filling the cell.
    *
    * #### Notes
-   * This is a pure delegate to the [[columnSpecsProperty]].
+   * A widget is always sized to fill as much of its cell as its size
+   * limits allow, so `Alignment.Start` and `Alignment.Stretch` place
+   * the widget identically. Set the CSS max size of the widget node
+   * to keep it from filling the cell.
+   *
+   * The default value is `Alignment.Stretch`.
+   *
+   * **See also:** [[getVerticalAlignment]], [[setVerticalAlignment]]
    */
-  set columnSpecs(value: Spec[]) {
-    GridPanel.columnSpecsProperty.set(this, value);
-  }
+  static verticalAlignmentProperty = new Property<Widget, Alignment>({
+    name: 'verticalAlignment',
+    value: Alignment.Stretch,
+    changed: child => { GridPanel._onChildPositionChanged(child); },
+  });
 
   /**
-   * Get the row spacing for the grid panel.
+   * The property descriptor for a widget's stacking order.
+   *
+   * This controls the order in which overlapping children render.
+   * A child with a larger value renders on top of a child with a
+   * smaller value.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowSpacingProperty]].
+   * The value is applied as the CSS `z-index` of the widget node when
+   * the children are laid out. A value of `0` clears the `z-index`, so
+   * that children with equal values render in child order. The panel
+   * node is a stacking context, so a negative value renders the child
+   * behind its siblings but not behind the panel itself.
+   *
+   * This value is an integer.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[getZIndex]], [[setZIndex]], [[bringToFront]],
+   *   [[sendToBack]]
    */
-  get rowSpacing(): number {
-    return GridPanel.rowSpacingProperty.get(this);
-  }
+  static zIndexProperty = new Property<Widget, number>({
+    name: 'zIndex',
+    value: 0,
+    coerce: (owner, value) => value | 0,
+    changed: child => { GridPanel._onChildPositionChanged(child); },
+  });
 
   /**
-   * Set the row spacing for the grid panel.
+   * The property descriptor for a widget's top cell margin.
+   *
+   * This controls the space between the top edge of a widget's cell
+   * and the top edge of the widget.
    *
    * #### Notes
-   * This is a pure delegate to the [[rowSpacingProperty]].
+   * This value is an integer clamped to a lower bound of `0`.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[getMarginTop]], [[setMarginTop]]
    */
-  set rowSpacing(value: number) {
-    GridPanel.rowSpacingProperty.set(this, value);
-  }
+  static marginTopProperty = new Property<Widget, number>({
+    name: 'marginTop',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value | 0),
+    changed: child => { GridPanel._onChildPropertyChanged(child); },
+  });
 
   /**
-   * Get the column spacing for the grid panel.
+   * The property descriptor for a widget's right cell margin.
+   *
+   * This controls the space between the right edge of a widget's cell
+   * and the right edge of the widget.
    *
    * #### Notes
-   * This is a pure delegate to the [[columnSpacingProperty]].
+   * This value is an integer clamped to a lower bound of `0`.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[getMarginRight]], [[setMarginRight]]
    */
-  get columnSpacing(): number {
-    return GridPanel.columnSpacingProperty.get(this);
-  }
+  static marginRightProperty = new Property<Widget, number>({
+    name: 'marginRight',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value | 0),
+    changed: child => { GridPanel._onChildPropertyChanged(child); },
+  });
 
   /**
-   * Set the column spacing for the grid panel.
+   * The property descriptor for a widget's bottom cell margin.
+   *
+   * This controls the space between the bottom edge of a widget's cell
+   * and the bottom edge of the widget.
    *
    * #### Notes
-   * This is a pure delegate to the [[columnSpacingProperty]].
+   * This value is an integer clamped to a lower bound of `0`.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[getMarginBottom]], [[setMarginBottom]]
    */
-  set columnSpacing(value: number) {
-    GridPanel.columnSpacingProperty.set(this, value);
-  }
+  static marginBottomProperty = new Property<Widget, number>({
+    name: 'marginBottom',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value | 0),
+    changed: child => { GridPanel._onChildPropertyChanged(child); },
+  });
 
   /**
-   * A message handler invoked on a `'child-added'` message.
+   * The property descriptor for a widget's left cell margin.
+   *
+   * This controls the space between the left edge of a widget's cell
+   * and the left edge of the widget.
+   *
+   * #### Notes
+   * This value is an integer clamped to a lower bound of `0`.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[getMarginLeft]], [[setMarginLeft]]
    */
-  protected onChildAdded(msg: ChildIndexMessage): void {
-    this.node.appendChild(msg.child.node);
-    if (this.isAttached) sendMessage(msg.child, Widget.MsgAfterAttach);
-    postMessage(this, Widget.MsgUpdateRequest);
-  }
+  static marginLeftProperty = new Property<Widget, number>({
+    name: 'marginLeft',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value | 0),
+    changed: child => { GridPanel._onChildPropertyChanged(child); },
+  });
 
   /**
-   * A message handler invoked on a `'child-moved'` message.
+   * Get the grid row index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid row index of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowProperty]].
    */
-  protected onChildMoved(msg: ChildIndexMessage): void { /* no-op */ }
+  static getRow(widget: Widget): number {
+    return GridPanel.rowProperty.get(widget);
+  }
 
   /**
-   * A message handler invoked on a `'child-removed'` message.
+   * Set the grid row index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the grid row index.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowProperty]].
    */
-  protected onChildRemoved(msg: ChildIndexMessage): void {
-    if (this.isAttached) sendMessage(msg.child, Widget.MsgBeforeDetach);
-    this.node.removeChild(msg.child.node);
-    resetGeometry(msg.child);
+  static setRow(widget: Widget, value: number): void {
+    GridPanel.rowProperty.set(widget, value);
   }
 
   /**
-   * A message handler invoked on an `'after-show'` message.
+   * Get the grid column index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid column index of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnProperty]].
    */
-  protected onAfterShow(msg: Message): void {
-    super.onAfterShow(msg);
-    sendMessage(this, Widget.MsgUpdateRequest);
+  static getColumn(widget: Widget): number {
+    return GridPanel.columnProperty.get(widget);
   }
 
   /**
-   * A message handler invoked on an `'after-attach'` message.
+   * Set the grid column index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the grid column index.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnProperty]].
    */
-  protected onAfterAttach(msg: Message): void {
-    super.onAfterAttach(msg);
-    postMessage(this, Panel.MsgLayoutRequest);
+  static setColumn(widget: Widget, value: number): void {
+    GridPanel.columnProperty.set(widget, value);
   }
 
   /**
-   * A message handler invoked on a `'child-shown'` message.
+   * Get the grid row span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid row span of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowSpanProperty]].
    */
-  protected onChildShown(msg: ChildMessage): void {
-    postMessage(this, Widget.MsgUpdateRequest);
+  static getRowSpan(widget: Widget): number {
+    return GridPanel.rowSpanProperty.get(widget);
   }
 
   /**
-   * A message handler invoked on a `'resize'` message.
-   */
-  protected onResize(msg: ResizeMessage): void {
-    if (this.isVisible) {
-      let width = msg.width < 0 ? this.node.offsetWidth : msg.width;
-      let height = msg.height < 0 ? this.node.offsetHeight : msg.height;
-      this._layoutChildren(width, height);
-    }
+   * Set the grid row span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The grid row span for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowSpanProperty]].
+   */
+  static setRowSpan(widget: Widget, value: number): void {
+    GridPanel.rowSpanProperty.set(widget, value);
   }
 
   /**
-   * A message handler invoked on an `'update-request'` message.
+   * Get the grid column span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid column span of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnSpanProperty]].
    */
-  protected onUpdateRequest(msg: Message): void {
-    if (this.isVisible) {
-      this._layoutChildren(this.node.offsetWidth, this.node.offsetHeight);
-    }
+  static getColumnSpan(widget: Widget): number {
+    return GridPanel.columnSpanProperty.get(widget);
   }
 
   /**
-   * A message handler invoked on a `'layout-request'` message.
+   * Set the grid column span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The grid column span for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnSpanProperty]].
    */
-  protected onLayoutRequest(msg: Message): void {
-    if (this.isAttached) {
-      this._setupGeometry();
-    }
+  static setColumnSpan(widget: Widget, value: number): void {
+    GridPanel.columnSpanProperty.set(widget, value);
   }
 
   /**
-   * Setup the size constraints and internal state of the grid panel.
+   * Get the grid area name for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid area name of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[areaProperty]].
    */
-  private _setupGeometry(): void {
-    // Initialize the size constraints.
-    let minW = 0;
-    let minH = 0;
-    let maxW = Infinity;
-    let maxH = Infinity;
+  static getArea(widget: Widget): string {
+    return GridPanel.areaProperty.get(widget);
+  }
 
-    // Compute the height constraints from the row specs.
-    let rowSpecs = this.rowSpecs;
-    if (rowSpecs.length > 0) {
-      let fixed = this.rowSpacing * (rowSpecs.length - 1);
-      minH = rowSpecs.reduce((s, spec) => s + spec.minSize, 0) + fixed;
-      maxH = rowSpecs.reduce((s, spec) => s + spec.maxSize, 0) + fixed;
-    }
+  /**
+   * Set the grid area name for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The grid area name for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[areaProperty]].
+   */
+  static setArea(widget: Widget, value: string): void {
+    GridPanel.areaProperty.set(widget, value);
+  }
 
-    // Compute the width constraints from the column specs.
-    let colSpecs = this.columnSpecs;
-    if (colSpecs.length > 0) {
-      let fixed = this.columnSpacing * (colSpecs.length - 1);
-      minW = colSpecs.reduce((s, spec) => s + spec.minSize, 0) + fixed;
-      maxW = colSpecs.reduce((s, spec) => s + spec.maxSize, 0) + fixed;
-    }
+  /**
+   * Get the auto placement flag for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns Whether the widget is auto placed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoPlaceProperty]].
+   */
+  static getAutoPlace(widget: Widget): boolean {
+    return GridPanel.autoPlaceProperty.get(widget);
+  }
 
-    // Refresh the cached size limits for the children.
-    for (let i = 0, n = this.childCount(); i < n; ++i) {
-      let widget = this.childAt(i);
-      setLimits(widget, sizeLimits(widget.node));
-    }
+  /**
+   * Set the auto placement flag for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - Whether the widget is auto placed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoPlaceProperty]].
+   */
+  static setAutoPlace(widget: Widget, value: boolean): void {
+    GridPanel.autoPlaceProperty.set(widget, value);
+  }
 
-    // Create the data arrays for the subsequent layout.
-    this._rowStarts = zeros(rowSpecs.length);
-    this._colStarts = zeros(colSpecs.length);
-    this._rowSizers = rowSpecs.map(makeSizer);
-    this._colSizers = colSpecs.map(makeSizer);
+  /**
+   * Get the horizontal cell alignment for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The horizontal cell alignment of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[horizontalAlignmentProperty]].
+   */
+  static getHorizontalAlignment(widget: Widget): Alignment {
+    return GridPanel.horizontalAlignmentProperty.get(widget);
+  }
 
-    // Update the box sizing and add it to the size constraints.
-    this._box = boxSizing(this.node);
-    minW += this._box.horizontalSum;
-    minH += this._box.verticalSum;
-    maxW += this._box.horizontalSum;
-    maxH += this._box.verticalSum;
+  /**
+   * Set the horizontal cell alignment for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The horizontal cell alignment for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[horizontalAlignmentProperty]].
+   */
+  static setHorizontalAlignment(widget: Widget, value: Alignment): void {
+    GridPanel.horizontalAlignmentProperty.set(widget, value);
+  }
 
-    // Update the panel's size constraints.
-    let style = this.node.style;
-    style.minWidth = minW + 'px';
-    style.minHeight = minH + 'px';
-    style.maxWidth = maxW === Infinity ? 'none' : maxW + 'px';
-    style.maxHeight = maxH === Infinity ? 'none' : maxH + 'px';
+  /**
+   * Get the vertical cell alignment for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The vertical cell alignment of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[verticalAlignmentProperty]].
+   */
+  static getVerticalAlignment(widget: Widget): Alignment {
+    return GridPanel.verticalAlignmentProperty.get(widget);
+  }
 
-    // Notify the parent that it should relayout.
-    if (this.parent) sendMessage(this.parent, Panel.MsgLayoutRequest);
+  /**
+   * Set the vertical cell alignment for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The vertical cell alignment for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[verticalAlignmentProperty]].
+   */
+  static setVerticalAlignment(widget: Widget, value: Alignment): void {
+    GridPanel.verticalAlignmentProperty.set(widget, value);
+  }
 
-    // Update the layout for the child widgets.
-    sendMessage(this, Widget.MsgUpdateRequest);
+  /**
+   * Get the stacking order for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The stacking order of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[zIndexProperty]].
+   */
+  static getZIndex(widget: Widget): number {
+    return GridPanel.zIndexProperty.get(widget);
   }
 
   /**
-   * Layout the children using the given offset width and height.
+   * Set the stacking order for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The stacking order for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[zIndexProperty]].
    */
-  private _layoutChildren(offsetWidth: number, offsetHeight: number): void {
-    // Bail early if their are no children to arrange.
-    if (this.childCount() === 0) {
-      return;
-    }
+  static setZIndex(widget: Widget, value: number): void {
+    GridPanel.zIndexProperty.set(widget, value);
+  }
 
-    // Ensure the box sizing is created.
-    let box = this._box || (this._box = boxSizing(this.node));
+  /**
+   * Get the top cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The top cell margin of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginTopProperty]].
+   */
+  static getMarginTop(widget: Widget): number {
+    return GridPanel.marginTopProperty.get(widget);
+  }
 
-    // Compute the actual layout bounds adjusted for border and padding.
-    let top = box.paddingTop;
-    let left = box.paddingLeft;
-    let width = offsetWidth - box.horizontalSum;
-    let height = offsetHeight - box.verticalSum;
+  /**
+   * Set the top cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The top cell margin for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginTopProperty]].
+   */
+  static setMarginTop(widget: Widget, value: number): void {
+    GridPanel.marginTopProperty.set(widget, value);
+  }
 
-    // If there are no row or column sizers, just stack the children.
-    if (this._rowSizers.length === 0 || this._colSizers.length === 0) {
-      for (let i = 0, n = this.childCount(); i < n; ++i) {
-        let widget = this.childAt(i);
-        let limits = getLimits(widget);
-        let w = Math.max(limits.minWidth, Math.min(width, limits.maxWidth));
-        let h = Math.max(limits.minHeight, Math.min(height, limits.maxHeight));
-        setGeometry(widget, left, top, w, h);
-      }
-      return;
-    }
+  /**
+   * Get the right cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The right cell margin of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginRightProperty]].
+   */
+  static getMarginRight(widget: Widget): number {
+    return GridPanel.marginRightProperty.get(widget);
+  }
 
-    // Compute the row positions.
-    let rowPos = top;
-    let rowStarts = this._rowStarts;
-    let rowSizers = this._rowSizers;
-    let rowSpacing = this.rowSpacing;
-    boxCalc(rowSizers, height - rowSpacing * (rowSizers.length - 1));
-    for (let i = 0, n = rowSizers.length; i < n; ++i) {
-      rowStarts[i] = rowPos;
-      rowPos += rowSizers[i].size + rowSpacing;
-    }
+  /**
+   * Set the right cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The right cell margin for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginRightProperty]].
+   */
+  static setMarginRight(widget: Widget, value: number): void {
+    GridPanel.marginRightProperty.set(widget, value);
+  }
 
-    // Compute the column positions.
-    let colPos = left;
-    let colStarts = this._colStarts;
-    let colSizers = this._colSizers;
-    let colSpacing = this.columnSpacing;
-    boxCalc(colSizers, width - colSpacing * (colSizers.length - 1));
-    for (let i = 0, n = colSizers.length; i < n; ++i) {
-      colStarts[i] = colPos;
-      colPos += colSizers[i].size + colSpacing;
-    }
+  /**
+   * Get the bottom cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The bottom cell margin of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginBottomProperty]].
+   */
+  static getMarginBottom(widget: Widget): number {
+    return GridPanel.marginBottomProperty.get(widget);
+  }
 
-    // Finally, layout the children.
-    let maxRow = rowSizers.length - 1;
-    let maxCol = colSizers.length - 1;
-    for (let i = 0, n = this.childCount(); i < n; ++i) {
-      // Fetch the child widget.
-      let widget = this.childAt(i);
+  /**
+   * Set the bottom cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The bottom cell margin for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginBottomProperty]].
+   */
+  static setMarginBottom(widget: Widget, value: number): void {
+    GridPanel.marginBottomProperty.set(widget, value);
+  }
 
-      // Compute the widget top and height.
-      let r1 = Math.max(0, Math.min(GridPanel.getRow(widget), maxRow));
-      let r2 = Math.min(r1 + GridPanel.getRowSpan(widget) - 1, maxRow);
-      let y = rowStarts[r1];
-      let h = rowStarts[r2] + rowSizers[r2].size - y;
+  /**
+   * Get the left cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The left cell margin of the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginLeftProperty]].
+   */
+  static getMarginLeft(widget: Widget): number {
+    return GridPanel.marginLeftProperty.get(widget);
+  }
 
-      // Compute the widget left and width.
-      let c1 = Math.max(0, Math.min(GridPanel.getColumn(widget), maxCol));
-      let c2 = Math.min(c1 + GridPanel.getColumnSpan(widget) - 1, maxCol);
-      let x = colStarts[c1];
-      let w = colStarts[c2] + colSizers[c2].size - x;
+  /**
+   * Set the left cell margin for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The left cell margin for the widget.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[marginLeftProperty]].
+   */
+  static setMarginLeft(widget: Widget, value: number): void {
+    GridPanel.marginLeftProperty.set(widget, value);
+  }
 
-      // Clamp to the limits and update the offset geometry.
-      let limits = getLimits(widget);
-      w = Math.max(limits.minWidth, Math.min(w, limits.maxWidth));
-      h = Math.max(limits.minHeight, Math.min(h, limits.maxHeight));
-      setGeometry(widget, x, y, w, h);
+  /**
+   * The change handler for the attached child properties.
+   */
+  private static _onChildPropertyChanged(child: Widget): void {
+    if (child.parent instanceof GridPanel) {
+      (child.parent as GridPanel)._requestLayout();
     }
   }
 
   /**
-   * The change handler for the `rowSpecs` property.
+   * The change handler for the attached child placement properties.
    */
-  private _onRowSpecsChanged(old: Spec[], specs: Spec[]): void {
-    for (let i = 0, n = old.length; i < n; ++i) {
-      if (specs.indexOf(old[i]) === -1) {
-        old[i].changed.disconnect(this._onRowSpecChanged, this);
-      }
-    }
-    for (let i = 0, n = specs.length; i < n; ++i) {
-      if (old.indexOf(specs[i]) === -1) {
-        specs[i].changed.connect(this._onRowSpecChanged, this);
-      }
+  private static _onChildPlacementChanged(child: Widget): void {
+    if (child.parent instanceof GridPanel) {
+      let panel = child.parent as GridPanel;
+      panel._requestLayout();
+      panel._enforceOverlapPolicy();
     }
-    postMessage(this, Panel.MsgLayoutRequest);
   }
 
   /**
-   * The change handler for the `columnSpecs` property.
+   * The change handler for the attached child position properties.
+   *
+   * These properties do not affect the size constraints of the panel.
    */
-  private _onColSpecsChanged(old: Spec[], specs: Spec[]): void {
-    for (let i = 0, n = old.length; i < n; ++i) {
-      if (specs.indexOf(old[i]) === -1) {
+  private static _onChildPositionChanged(child: Widget): void {
+    if (child.parent instanceof GridPanel) {
+      (child.parent as GridPanel)._requestUpdate();
+    }
+  }
+
+  /**
+   * Construct a new grid panel.
+   */
+  constructor() {
+    super();
+    this.addClass(GRID_PANEL_CLASS);
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._releaseMouse();
+    this._stopAnimation();
+    this._rowHandles.length = 0;
+    this._colHandles.length = 0;
+    this._rowSpecs.length = 0;
+    this._colSpecs.length = 0;
+    this._rowStarts.length = 0;
+    this._colStarts.length = 0;
+    this._rowSizers.length = 0;
+    this._colSizers.length = 0;
+    this._rowSizes.length = 0;
+    this._colSizes.length = 0;
+    this._debugOverlay = null;
+    super.dispose();
+  }
+
+  /**
+   * A signal emitted when the user finishes resizing tracks.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[tracksResizedSignal]].
+   */
+  get tracksResized(): ISignal<GridPanel, ITracksResizedArgs> {
+    return GridPanel.tracksResizedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the active breakpoint layout changes.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[layoutChangedSignal]].
+   */
+  get layoutChanged(): ISignal<GridPanel, IBreakpoint> {
+    return GridPanel.layoutChangedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the state of a breakpoint cannot be restored.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[breakpointFailedSignal]].
+   */
+  get breakpointFailed(): ISignal<GridPanel, IBreakpointFailedArgs> {
+    return GridPanel.breakpointFailedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the panel finishes a layout of its children.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[layoutCompletedSignal]].
+   */
+  get layoutCompleted(): ISignal<GridPanel, ILayoutCompletedArgs> {
+    return GridPanel.layoutCompletedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the user drops a dragged child on a cell.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[childMoveRequestedSignal]].
+   */
+  get childMoveRequested(): ISignal<GridPanel, IChildMoveRequestedArgs> {
+    return GridPanel.childMoveRequestedSignal.bind(this);
+  }
+
+  /**
+   * A signal emitted when the layout finds overlapping children.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[overlapDetectedSignal]].
+   */
+  get overlapDetected(): ISignal<GridPanel, IOverlapDetectedArgs> {
+    return GridPanel.overlapDetectedSignal.bind(this);
+  }
+
+  /**
+   * Get the row specs for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowSpecsProperty]].
+   */
+  get rowSpecs(): Spec[] {
+    return GridPanel.rowSpecsProperty.get(this);
+  }
+
+  /**
+   * Set the row specs for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowSpecsProperty]].
+   */
+  set rowSpecs(value: Spec[]) {
+    GridPanel.rowSpecsProperty.set(this, value);
+  }
+
+  /**
+   * Get the column specs for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnSpecsProperty]].
+   */
+  get columnSpecs(): Spec[] {
+    return GridPanel.columnSpecsProperty.get(this);
+  }
+
+  /**
+   * Set the column specs for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnSpecsProperty]].
+   */
+  set columnSpecs(value: Spec[]) {
+    GridPanel.columnSpecsProperty.set(this, value);
+  }
+
+  /**
+   * Get the implicit row spec for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoRowSpecProperty]].
+   */
+  get autoRowSpec(): Spec {
+    return GridPanel.autoRowSpecProperty.get(this);
+  }
+
+  /**
+   * Set the implicit row spec for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoRowSpecProperty]].
+   */
+  set autoRowSpec(value: Spec) {
+    GridPanel.autoRowSpecProperty.set(this, value);
+  }
+
+  /**
+   * Get the implicit column spec for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoColumnSpecProperty]].
+   */
+  get autoColumnSpec(): Spec {
+    return GridPanel.autoColumnSpecProperty.get(this);
+  }
+
+  /**
+   * Set the implicit column spec for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoColumnSpecProperty]].
+   */
+  set autoColumnSpec(value: Spec) {
+    GridPanel.autoColumnSpecProperty.set(this, value);
+  }
+
+  /**
+   * Get the row spacing for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowSpacingProperty]].
+   */
+  get rowSpacing(): number {
+    return GridPanel.rowSpacingProperty.get(this);
+  }
+
+  /**
+   * Set the row spacing for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[rowSpacingProperty]].
+   */
+  set rowSpacing(value: number) {
+    GridPanel.rowSpacingProperty.set(this, value);
+  }
+
+  /**
+   * Get the column spacing for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnSpacingProperty]].
+   */
+  get columnSpacing(): number {
+    return GridPanel.columnSpacingProperty.get(this);
+  }
+
+  /**
+   * Set the column spacing for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[columnSpacingProperty]].
+   */
+  set columnSpacing(value: number) {
+    GridPanel.columnSpacingProperty.set(this, value);
+  }
+
+  /**
+   * Get whether the tracks are resizable by the user.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[resizableProperty]].
+   */
+  get resizable(): boolean {
+    return GridPanel.resizableProperty.get(this);
+  }
+
+  /**
+   * Set whether the tracks are resizable by the user.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[resizableProperty]].
+   */
+  set resizable(value: boolean) {
+    GridPanel.resizableProperty.set(this, value);
+  }
+
+  /**
+   * Get the column direction for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[directionProperty]].
+   */
+  get direction(): Direction {
+    return GridPanel.directionProperty.get(this);
+  }
+
+  /**
+   * Set the column direction for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[directionProperty]].
+   */
+  set direction(value: Direction) {
+    GridPanel.directionProperty.set(this, value);
+  }
+
+  /**
+   * Get the animation duration for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[animationDurationProperty]].
+   */
+  get animationDuration(): number {
+    return GridPanel.animationDurationProperty.get(this);
+  }
+
+  /**
+   * Set the animation duration for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[animationDurationProperty]].
+   */
+  set animationDuration(value: number) {
+    GridPanel.animationDurationProperty.set(this, value);
+  }
+
+  /**
+   * Get whether the children are draggable by the user.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[draggableProperty]].
+   */
+  get draggable(): boolean {
+    return GridPanel.draggableProperty.get(this);
+  }
+
+  /**
+   * Set whether the children are draggable by the user.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[draggableProperty]].
+   */
+  set draggable(value: boolean) {
+    GridPanel.draggableProperty.set(this, value);
+  }
+
+  /**
+   * Get whether the tracks with only hidden children are collapsed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[collapseHiddenProperty]].
+   */
+  get collapseHidden(): boolean {
+    return GridPanel.collapseHiddenProperty.get(this);
+  }
+
+  /**
+   * Set whether the tracks with only hidden children are collapsed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[collapseHiddenProperty]].
+   */
+  set collapseHidden(value: boolean) {
+    GridPanel.collapseHiddenProperty.set(this, value);
+  }
+
+  /**
+   * Get the overlap policy for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[overlapPolicyProperty]].
+   */
+  get overlapPolicy(): OverlapPolicy {
+    return GridPanel.overlapPolicyProperty.get(this);
+  }
+
+  /**
+   * Set the overlap policy for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[overlapPolicyProperty]].
+   */
+  set overlapPolicy(value: OverlapPolicy) {
+    GridPanel.overlapPolicyProperty.set(this, value);
+  }
+
+  /**
+   * Get the template areas for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[templateAreasProperty]].
+   */
+  get templateAreas(): string[] {
+    return GridPanel.templateAreasProperty.get(this);
+  }
+
+  /**
+   * Set the template areas for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[templateAreasProperty]].
+   */
+  set templateAreas(value: string[]) {
+    GridPanel.templateAreasProperty.set(this, value);
+  }
+
+  /**
+   * Get the breakpoints for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[breakpointsProperty]].
+   */
+  get breakpoints(): IBreakpoint[] {
+    return GridPanel.breakpointsProperty.get(this);
+  }
+
+  /**
+   * Set the breakpoints for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[breakpointsProperty]].
+   */
+  set breakpoints(value: IBreakpoint[]) {
+    GridPanel.breakpointsProperty.set(this, value);
+  }
+
+  /**
+   * Get the active breakpoint for the grid panel.
+   *
+   * #### Notes
+   * This is `null` until a breakpoint matches the size of the panel.
+   *
+   * This is a read-only property.
+   */
+  get activeBreakpoint(): IBreakpoint {
+    return this._breakpoint;
+  }
+
+  /**
+   * Get the auto flow mode for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoFlowProperty]].
+   */
+  get autoFlow(): AutoFlow {
+    return GridPanel.autoFlowProperty.get(this);
+  }
+
+  /**
+   * Set the auto flow mode for the grid panel.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[autoFlowProperty]].
+   */
+  set autoFlow(value: AutoFlow) {
+    GridPanel.autoFlowProperty.set(this, value);
+  }
+
+  /**
+   * Get whether the grid panel renders a debug overlay.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[debugProperty]].
+   */
+  get debug(): boolean {
+    return GridPanel.debugProperty.get(this);
+  }
+
+  /**
+   * Set whether the grid panel renders a debug overlay.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[debugProperty]].
+   */
+  set debug(value: boolean) {
+    GridPanel.debugProperty.set(this, value);
+  }
+
+  /**
+   * Save the layout state of the grid panel.
+   *
+   * @param key - A function which returns the key for a child widget.
+   *   The default uses the widget `id`.
+   *
+   * @returns A plain object which can be serialized as JSON.
+   *
+   * #### Notes
+   * The state includes the row and column specs, the spacing, the
+   * template areas, the auto flow mode and implicit track specs, and
+   * the grid placement of each child. Children
+   * with an empty key are not included in the state.
+   *
+   * An error is thrown if two children share the same key.
+   *
+   * **See also:** [[restoreState]]
+   */
+  saveState(key: (widget: Widget) => string = widgetId): IGridState {
+    let children: IChildState[] = [];
+    let map = mapChildren(this, key);
+    for (let k in map) {
+      let widget = map[k];
+      children.push({
+        key: k,
+        row: GridPanel.getRow(widget),
+        column: GridPanel.getColumn(widget),
+        rowSpan: GridPanel.getRowSpan(widget),
+        columnSpan: GridPanel.getColumnSpan(widget),
+        area: GridPanel.getArea(widget),
+        autoPlace: GridPanel.getAutoPlace(widget),
+      });
+    }
+    return {
+      rowSpecs: this.rowSpecs.map(specState),
+      columnSpecs: this.columnSpecs.map(specState),
+      rowSpacing: this.rowSpacing,
+      columnSpacing: this.columnSpacing,
+      templateAreas: this.templateAreas.slice(),
+      autoFlow: this.autoFlow,
+      autoRowSpec: this.autoRowSpec ? specState(this.autoRowSpec) : null,
+      autoColumnSpec: this.autoColumnSpec ? specState(this.autoColumnSpec) : null,
+      children,
+    };
+  }
+
+  /**
+   * Restore a layout state previously saved by the grid panel.
+   *
+   * @param state - The layout state to restore.
+   *
+   * @param key - A function which returns the key for a child widget.
+   *   The default uses the widget `id`.
+   *
+   * #### Notes
+   * The state is fully validated before it is applied. An error is
+   * thrown if a key does not match a child of the panel, if the
+   * placement of a child does not fit within the restored specs, or
+   * if the template areas are invalid. A placement beyond the last
+   * track is allowed along an axis which has an implicit track spec.
+   *
+   * The optional template areas, auto flow mode, implicit track specs
+   * and child auto placement flags are only restored if they are
+   * present in the state.
+   *
+   * Children which are not included in the state are not modified.
+   *
+   * If the overlap policy is `Error`, an error is thrown after the
+   * state is applied if the restored placements overlap.
+   *
+   * **See also:** [[saveState]]
+   */
+  restoreState(state: IGridState, key: (widget: Widget) => string = widgetId): void {
+    // Validate the state before modifying the panel.
+    if (state.templateAreas) parseTemplateAreas(state.templateAreas);
+    let map = mapChildren(this, key);
+    let autoRow = state.autoRowSpec !== void 0 ? state.autoRowSpec : this.autoRowSpec;
+    let autoCol = state.autoColumnSpec !== void 0 ? state.autoColumnSpec : this.autoColumnSpec;
+    let rowCount = autoRow ? Infinity : state.rowSpecs.length;
+    let colCount = autoCol ? Infinity : state.columnSpecs.length;
+    for (let i = 0, n = state.children.length; i < n; ++i) {
+      let child = state.children[i];
+      if (!(child.key in map)) {
+        throw new Error(`Unknown child key: '${child.key}'.`);
+      }
+      validatePlacement(child.key, 'row', child.row, child.rowSpan, rowCount);
+      validatePlacement(child.key, 'column', child.column, child.columnSpan, colCount);
+    }
+
+    // Apply the state to the panel and its children.
+    this._place(() => {
+      this.rowSpecs = state.rowSpecs.map(options => new Spec(options));
+      this.columnSpecs = state.columnSpecs.map(options => new Spec(options));
+      this.rowSpacing = state.rowSpacing;
+      this.columnSpacing = state.columnSpacing;
+      if (state.templateAreas) this.templateAreas = state.templateAreas;
+      if (state.autoFlow !== void 0) this.autoFlow = state.autoFlow;
+      if (state.autoRowSpec !== void 0) {
+        this.autoRowSpec = state.autoRowSpec ? new Spec(state.autoRowSpec) : null;
+      }
+      if (state.autoColumnSpec !== void 0) {
+        this.autoColumnSpec = state.autoColumnSpec ? new Spec(state.autoColumnSpec) : null;
+      }
+      for (let i = 0, n = state.children.length; i < n; ++i) {
+        let child = state.children[i];
+        let widget = map[child.key];
+        GridPanel.setRow(widget, child.row);
+        GridPanel.setColumn(widget, child.column);
+        GridPanel.setRowSpan(widget, child.rowSpan);
+        GridPanel.setColumnSpan(widget, child.columnSpan);
+        if (child.area !== void 0) GridPanel.setArea(widget, child.area);
+        if (child.autoPlace !== void 0) GridPanel.setAutoPlace(widget, child.autoPlace);
+      }
+    });
+  }
+
+  /**
+   * Find the child which occupies a grid cell.
+   *
+   * @param row - The row index of the cell.
+   *
+   * @param column - The column index of the cell.
+   *
+   * @returns The child which occupies the cell, or `null`.
+   *
+   * #### Notes
+   * If several children occupy the cell, the child which renders on
+   * top is returned. That is the child with the largest `zIndex`, or
+   * the last such child in child order.
+   *
+   * The result reflects the placement of the most recent layout.
+   */
+  widgetAt(row: number, column: number): Widget {
+    let result: Widget = null;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let widget = this.childAt(i);
+      if (!containsCell(this._clampCell(getCell(widget)), row, column)) {
+        continue;
+      }
+      if (!result || GridPanel.getZIndex(widget) >= GridPanel.getZIndex(result)) {
+        result = widget;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the grid cells occupied by a child.
+   *
+   * @param widget - The child widget of interest.
+   *
+   * @returns The cells occupied by the child, or `null` if the widget
+   *   is not a child of the panel.
+   *
+   * #### Notes
+   * The result reflects the placement of the most recent layout, with
+   * the cells clamped to the tracks of the panel.
+   */
+  cellsOf(widget: Widget): ICell {
+    if (widget.parent !== this) {
+      return null;
+    }
+    return this._clampCell(getCell(widget));
+  }
+
+  /**
+   * Get the offset rect of the grid cells occupied by a child.
+   *
+   * @param widget - The child widget of interest.
+   *
+   * @returns The rect of the cells occupied by the child, or `null`
+   *   if the widget is not a child of the panel, if the panel has not
+   *   been laid out, or if the children are stacked.
+   *
+   * #### Notes
+   * The result is the area of the cells, not the geometry of the
+   * child. The rect spans the tracks and the spacing between them,
+   * and does not account for the margins, the size limits, or the
+   * alignment of the child. The final child rects are provided by
+   * the [[layoutCompleted]] signal.
+   *
+   * The result reflects the track positions of the most recent layout.
+   *
+   * **See also:** [[layoutCompleted]]
+   */
+  cellRect(widget: Widget): IRect {
+    if (widget.parent !== this) {
+      return null;
+    }
+    if (this._rowSizes.length === 0 || this._colSizes.length === 0) {
+      return null;
+    }
+    let cell = getCell(widget);
+    return this._cellsRect(cell.row, cell.column, cell.rowSpan, cell.columnSpan);
+  }
+
+  /**
+   * Get the offset top edge of each row of the panel.
+   *
+   * @returns A new array of the row offsets, in pixels.
+   *
+   * #### Notes
+   * The result reflects the most recent layout, and includes the
+   * implicit rows. The array is empty if the panel has not been laid
+   * out, or if the children are stacked.
+   *
+   * The track geometry is kept until the next layout is run, so the
+   * result does not change while the panel is hidden.
+   *
+   * **See also:** [[rowSizes]], [[columnOffsets]]
+   */
+  rowOffsets(): number[] {
+    return this._rowStarts.slice();
+  }
+
+  /**
+   * Get the height of each row of the panel.
+   *
+   * @returns A new array of the row heights, in pixels.
+   *
+   * #### Notes
+   * The result reflects the most recent layout, and includes the
+   * implicit rows. A collapsed row has a height of zero. The array
+   * is empty if the panel has not been laid out, or if the children
+   * are stacked.
+   *
+   * **See also:** [[rowOffsets]], [[columnSizes]]
+   */
+  rowSizes(): number[] {
+    return this._rowSizes.slice();
+  }
+
+  /**
+   * Get the offset left edge of each column of the panel.
+   *
+   * @returns A new array of the column offsets, in pixels.
+   *
+   * #### Notes
+   * The result reflects the most recent layout, and includes the
+   * implicit columns. The offsets are mirrored for a right-to-left
+   * layout. The array is empty if the panel has not been laid out,
+   * or if the children are stacked.
+   *
+   * **See also:** [[columnSizes]], [[rowOffsets]]
+   */
+  columnOffsets(): number[] {
+    return this._colStarts.slice();
+  }
+
+  /**
+   * Get the width of each column of the panel.
+   *
+   * @returns A new array of the column widths, in pixels.
+   *
+   * #### Notes
+   * The result reflects the most recent layout, and includes the
+   * implicit columns. A collapsed column has a width of zero. The
+   * array is empty if the panel has not been laid out, or if the
+   * children are stacked.
+   *
+   * **See also:** [[columnOffsets]], [[rowSizes]]
+   */
+  columnSizes(): number[] {
+    return this._colSizes.slice();
+  }
+
+  /**
+   * Get the grid cells which are not occupied by any child.
+   *
+   * @returns A new array of the free cells, in row-major order.
+   *
+   * #### Notes
+   * The result reflects the placement of the most recent layout.
+   */
+  freeCells(): ICellPosition[] {
+    let occupied: { [key: string]: boolean } = Object.create(null);
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      markCell(occupied, this._clampCell(getCell(this.childAt(i))));
+    }
+    let result: ICellPosition[] = [];
+    for (let row = 0, nr = this._rowSizers.length; row < nr; ++row) {
+      for (let column = 0, nc = this._colSizers.length; column < nc; ++column) {
+        if (!occupied[row + ',' + column]) result.push({ row, column });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find the grid cell at a client position.
+   *
+   * @param clientX - The client X position of interest.
+   *
+   * @param clientY - The client Y position of interest.
+   *
+   * @returns The cell at the position, or `null` if the position is
+   *   not within a cell.
+   *
+   * #### Notes
+   * A position which lies in the spacing between tracks, or in the
+   * border or padding of the panel, is not within a cell.
+   *
+   * The result reflects the track geometry of the most recent layout.
+   */
+  hitTest(clientX: number, clientY: number): ICellPosition {
+    if (this._isStacked()) {
+      return null;
+    }
+    let rect = this.node.getBoundingClientRect();
+    let box = this._box || (this._box = boxSizing(this.node));
+    let x = clientX - rect.left - box.borderLeft;
+    let y = clientY - rect.top - box.borderTop;
+    let row = trackAt(this._rowStarts, this._rowSizes, y);
+    let column = trackAt(this._colStarts, this._colSizes, x);
+    if (row === -1 || column === -1) {
+      return null;
+    }
+    return { row, column };
+  }
+
+  /**
+   * Render a child on top of all other children.
+   *
+   * @param widget - The child widget of interest.
+   *
+   * #### Notes
+   * This sets the `zIndex` of the child to one more than the largest
+   * `zIndex` of the other children, unless the child is already the
+   * only child with the largest value.
+   *
+   * This is a no-op if the widget is not a child of the panel.
+   */
+  bringToFront(widget: Widget): void {
+    if (widget.parent !== this) {
+      return;
+    }
+    let max = -Infinity;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let child = this.childAt(i);
+      if (child !== widget) max = Math.max(max, GridPanel.getZIndex(child));
+    }
+    if (max !== -Infinity && GridPanel.getZIndex(widget) <= max) {
+      GridPanel.setZIndex(widget, max + 1);
+    }
+  }
+
+  /**
+   * Render a child below all other children.
+   *
+   * @param widget - The child widget of interest.
+   *
+   * #### Notes
+   * This sets the `zIndex` of the child to one less than the smallest
+   * `zIndex` of the other children, unless the child is already the
+   * only child with the smallest value.
+   *
+   * This is a no-op if the widget is not a child of the panel.
+   */
+  sendToBack(widget: Widget): void {
+    if (widget.parent !== this) {
+      return;
+    }
+    let min = Infinity;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let child = this.childAt(i);
+      if (child !== widget) min = Math.min(min, GridPanel.getZIndex(child));
+    }
+    if (min !== Infinity && GridPanel.getZIndex(widget) >= min) {
+      GridPanel.setZIndex(widget, min - 1);
+    }
+  }
+
+  /**
+   * Insert a row into the grid panel.
+   *
+   * @param index - The index at which to insert the row. This is
+   *   clamped to the bounds of the current row specs.
+   *
+   * @param spec - The spec for the new row. The default is a new
+   *   spec with the default values.
+   *
+   * #### Notes
+   * The children at or below the index are moved down one row, and
+   * the children which span the index are grown by one row.
+   *
+   * The children placed by a template area or by auto placement are
+   * not modified. The template areas should be updated separately.
+   *
+   * The panel is updated in a single layout pass.
+   *
+   * **See also:** [[removeRow]], [[moveRow]], [[insertColumn]]
+   */
+  insertRow(index: number, spec = new Spec()): void {
+    this._place(() => { this._insertTrack(true, index, spec); });
+  }
+
+  /**
+   * Remove a row from the grid panel.
+   *
+   * @param index - The index of the row to remove.
+   *
+   * @returns The children which were placed entirely within the
+   *   removed row, or an empty array if the index is out of range.
+   *
+   * #### Notes
+   * The children below the index are moved up one row, and the
+   * children which span the index are shrunk by one row.
+   *
+   * The children placed entirely within the removed row keep their
+   * row index, and will occupy the row which follows it. The caller
+   * may reposition or remove these children as needed.
+   *
+   * The children placed by a template area or by auto placement are
+   * not modified. The template areas should be updated separately.
+   *
+   * The panel is updated in a single layout pass.
+   *
+   * **See also:** [[insertRow]], [[moveRow]], [[removeColumn]]
+   */
+  removeRow(index: number): Widget[] {
+    return this._place(() => this._removeTrack(true, index));
+  }
+
+  /**
+   * Move a row to a new position in the grid panel.
+   *
+   * @param fromIndex - The index of the row to move.
+   *
+   * @param toIndex - The new index of the row. This is clamped to
+   *   the bounds of the current row specs.
+   *
+   * #### Notes
+   * The row index of each child is updated to follow the row which
+   * it started in. The row spans of the children are not modified.
+   *
+   * The children placed by a template area or by auto placement are
+   * not modified. The template areas should be updated separately.
+   *
+   * The panel is updated in a single layout pass.
+   *
+   * This is a no-op if the from index is out of range.
+   *
+   * **See also:** [[insertRow]], [[removeRow]], [[moveColumn]]
+   */
+  moveRow(fromIndex: number, toIndex: number): void {
+    this._place(() => { this._moveTrack(true, fromIndex, toIndex); });
+  }
+
+  /**
+   * Insert a column into the grid panel.
+   *
+   * @param index - The index at which to insert the column. This is
+   *   clamped to the bounds of the current column specs.
+   *
+   * @param spec - The spec for the new column. The default is a new
+   *   spec with the default values.
+   *
+   * #### Notes
+   * The children at or after the index are moved over one column,
+   * and the children which span the index are grown by one column.
+   *
+   * The children placed by a template area or by auto placement are
+   * not modified. The template areas should be updated separately.
+   *
+   * The panel is updated in a single layout pass.
+   *
+   * **See also:** [[removeColumn]], [[moveColumn]], [[insertRow]]
+   */
+  insertColumn(index: number, spec = new Spec()): void {
+    this._place(() => { this._insertTrack(false, index, spec); });
+  }
+
+  /**
+   * Remove a column from the grid panel.
+   *
+   * @param index - The index of the column to remove.
+   *
+   * @returns The children which were placed entirely within the
+   *   removed column, or an empty array if the index is out of range.
+   *
+   * #### Notes
+   * The children after the index are moved back one column, and the
+   * children which span the index are shrunk by one column.
+   *
+   * The children placed entirely within the removed column keep their
+   * column index, and will occupy the column which follows it. The
+   * caller may reposition or remove these children as needed.
+   *
+   * The children placed by a template area or by auto placement are
+   * not modified. The template areas should be updated separately.
+   *
+   * The panel is updated in a single layout pass.
+   *
+   * **See also:** [[insertColumn]], [[moveColumn]], [[removeRow]]
+   */
+  removeColumn(index: number): Widget[] {
+    return this._place(() => this._removeTrack(false, index));
+  }
+
+  /**
+   * Move a column to a new position in the grid panel.
+   *
+   * @param fromIndex - The index of the column to move.
+   *
+   * @param toIndex - The new index of the column. This is clamped to
+   *   the bounds of the current column specs.
+   *
+   * #### Notes
+   * The column index of each child is updated to follow the column
+   * which it started in. The column spans of the children are not
+   * modified.
+   *
+   * The children placed by a template area or by auto placement are
+   * not modified. The template areas should be updated separately.
+   *
+   * The panel is updated in a single layout pass.
+   *
+   * This is a no-op if the from index is out of range.
+   *
+   * **See also:** [[insertColumn]], [[removeColumn]], [[moveRow]]
+   */
+  moveColumn(fromIndex: number, toIndex: number): void {
+    this._place(() => { this._moveTrack(false, fromIndex, toIndex); });
+  }
+
+  /**
+   * Begin a batch of updates to the grid panel.
+   *
+   * #### Notes
+   * While a batch is active, the layout requests and update requests
+   * for the panel are deferred. When the outermost batch is ended, a
+   * single layout pass is run if any layout work was requested.
+   * The size limits of the children are read from the DOM once, by
+   * that layout pass, instead of once for each deferred request.
+   *
+   * Batches may be nested. Each call to this method must be paired
+   * with a call to [[endUpdate]].
+   *
+   * **See also:** [[endUpdate]], [[batch]]
+   */
+  beginUpdate(): void {
+    this._batchDepth++;
+  }
+
+  /**
+   * End a batch of updates to the grid panel.
+   *
+   * #### Notes
+   * If this ends the outermost batch, and layout work was requested
+   * during the batch, the layout of the panel is updated immediately.
+   *
+   * If the placement of a child was changed during the batch and the
+   * overlap policy is `Error`, the placements are checked before the
+   * layout is updated, and an error is thrown after the update if the
+   * children overlap.
+   *
+   * This is a no-op if a batch is not active.
+   *
+   * **See also:** [[beginUpdate]], [[batch]]
+   */
+  endUpdate(): void {
+    this._endUpdate(true);
+  }
+
+  /**
+   * Invoke a function as a batch of updates to the grid panel.
+   *
+   * @param fn - The function to invoke. It is invoked synchronously.
+   *
+   * #### Notes
+   * This wraps the function in calls to [[beginUpdate]] and
+   * [[endUpdate]], so that the layout is updated at most once after
+   * the function returns, even if the function throws.
+   *
+   * If the function throws, its error is rethrown after the batch is
+   * ended, and the overlap policy is not enforced by this batch.
+   *
+   * ```typescript
+   * panel.batch(() => {
+   *   panel.rowSpacing = 4;
+   *   panel.columnSpacing = 4;
+   *   GridPanel.setRow(child, 2);
+   * });
+   * ```
+   *
+   * **See also:** [[beginUpdate]], [[endUpdate]]
+   */
+  batch(fn: () => void): void {
+    this.beginUpdate();
+    try {
+      fn();
+    } catch (err) {
+      this._endUpdate(false);
+      throw err;
+    }
+    this.endUpdate();
+  }
+
+  /**
+   * Handle the DOM events for the grid panel.
+   *
+   * @param event - The DOM event sent to the panel.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the panel's DOM node. It should
+   * not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'mousedown':
+      this._evtMouseDown(event as MouseEvent);
+      break;
+    case 'mousemove':
+      this._evtMouseMove(event as MouseEvent);
+      break;
+    case 'mouseup':
+      this._evtMouseUp(event as MouseEvent);
+      break;
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'child-added'` message.
+   */
+  protected onChildAdded(msg: ChildIndexMessage): void {
+    this.node.appendChild(msg.child.node);
+    if (this.isAttached) sendMessage(msg.child, Widget.MsgAfterAttach);
+    this._requestLayout();
+  }
+
+  /**
+   * A message handler invoked on a `'child-moved'` message.
+   */
+  protected onChildMoved(msg: ChildIndexMessage): void { /* no-op */ }
+
+  /**
+   * A message handler invoked on a `'child-removed'` message.
+   */
+  protected onChildRemoved(msg: ChildIndexMessage): void {
+    if (this.isAttached) sendMessage(msg.child, Widget.MsgBeforeDetach);
+    this.node.removeChild(msg.child.node);
+    msg.child.removeClass(COLLAPSED_CLASS);
+    resetGeometry(msg.child);
+    this._requestLayout();
+  }
+
+  /**
+   * A message handler invoked on an `'after-show'` message.
+   */
+  protected onAfterShow(msg: Message): void {
+    super.onAfterShow(msg);
+    sendMessage(this, Widget.MsgUpdateRequest);
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.node.addEventListener('mousedown', this);
+    this._requestLayout();
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    super.onBeforeDetach(msg);
+    this.node.removeEventListener('mousedown', this);
+    this._releaseMouse();
+    this._stopAnimation();
+  }
+
+  /**
+   * A message handler invoked on a `'child-shown'` message.
+   */
+  protected onChildShown(msg: ChildMessage): void {
+    this._requestLayout();
+  }
+
+  /**
+   * A message handler invoked on a `'child-hidden'` message.
+   */
+  protected onChildHidden(msg: ChildMessage): void {
+    this._requestLayout();
+  }
+
+  /**
+   * A message handler invoked on a `'resize'` message.
+   */
+  protected onResize(msg: ResizeMessage): void {
+    if (this._deferLayout()) {
+      return;
+    }
+    if (this.isVisible) {
+      let width = msg.width < 0 ? this.node.offsetWidth : msg.width;
+      let height = msg.height < 0 ? this.node.offsetHeight : msg.height;
+      if (!this._syncBreakpoint(width, height)) {
+        this._layoutChildren(width, height);
+      }
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    if (this._deferLayout()) {
+      return;
+    }
+    if (this.isVisible) {
+      let width = this.node.offsetWidth;
+      let height = this.node.offsetHeight;
+      if (!this._syncBreakpoint(width, height)) {
+        this._layoutChildren(width, height);
+      }
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'layout-request'` message.
+   */
+  protected onLayoutRequest(msg: Message): void {
+    if (this._deferLayout()) {
+      return;
+    }
+    if (this.isAttached) {
+      this._setupGeometry();
+    }
+  }
+
+  /**
+   * Setup the size constraints and internal state of the grid panel.
+   */
+  private _setupGeometry(): void {
+    // Initialize the size constraints.
+    let minW = 0;
+    let minH = 0;
+    let maxW = Infinity;
+    let maxH = Infinity;
+
+    // Refresh the cached size limits for the children.
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let widget = this.childAt(i);
+      setLimits(widget, sizeLimits(widget.node));
+    }
+
+    // Resolve the column direction of the panel.
+    this._rtl = isRightToLeft(this);
+
+    // Resolve the grid cells occupied by the children.
+    let overlaps = this._resolveCells(true);
+    if (overlaps.length > 0) {
+      this.overlapDetected.emit({ widgets: overlaps });
+    }
+
+    // Create the track specs, including the implicit tracks.
+    let rowSpecs = implicitSpecs(this.rowSpecs, this.autoRowSpec, rowExtent(this));
+    let colSpecs = implicitSpecs(this.columnSpecs, this.autoColumnSpec, columnExtent(this));
+
+    // Create the box sizers for the rows and columns, grown to fit
+    // the min size of the children. These are reused by the layout.
+    let items = gridItems(this);
+    let spacing = { rowSpacing: this.rowSpacing, columnSpacing: this.columnSpacing };
+    let fit = fitTracks(rowSpecs, colSpecs, spacing, items, this.collapseHidden);
+    let rowSizers = fit.rowSizers;
+    let colSizers = fit.columnSizers;
+
+    // Compute the height constraints from the row sizers.
+    if (rowSizers.length > 0) {
+      let fixed = this.rowSpacing * gutterCount(fit.rowCollapsed);
+      minH = rowSizers.reduce((s, sizer) => s + sizer.minSize, 0) + fixed;
+      maxH = rowSizers.reduce((s, sizer) => s + sizer.maxSize, 0) + fixed;
+    }
+
+    // Compute the width constraints from the column sizers.
+    if (colSizers.length > 0) {
+      let fixed = this.columnSpacing * gutterCount(fit.columnCollapsed);
+      minW = colSizers.reduce((s, sizer) => s + sizer.minSize, 0) + fixed;
+      maxW = colSizers.reduce((s, sizer) => s + sizer.maxSize, 0) + fixed;
+    }
+
+    // If the children are stacked, the shown children must each fit.
+    if (rowSizers.length === 0 || colSizers.length === 0) {
+      for (let i = 0, n = items.length; i < n; ++i) {
+        let item = items[i];
+        if (item.hidden) continue;
+        minW = Math.max(minW, item.minWidth + horizontalMargins(item));
+        minH = Math.max(minH, item.minHeight + verticalMargins(item));
+      }
+    }
+
+    // Sync the resize handles with the explicit tracks.
+    let resizable = this.resizable && rowSizers.length > 0 && colSizers.length > 0;
+    let rowHandles = resizable ? Math.max(0, this.rowSpecs.length - 1) : 0;
+    let colHandles = resizable ? Math.max(0, this.columnSpecs.length - 1) : 0;
+    syncHandles(this.node, this._rowHandles, rowHandles, ROW_CLASS);
+    syncHandles(this.node, this._colHandles, colHandles, COLUMN_CLASS);
+
+    // Create the data arrays for the subsequent layout.
+    this._rowSpecs = rowSpecs;
+    this._colSpecs = colSpecs;
+    this._rowCollapsed = fit.rowCollapsed;
+    this._colCollapsed = fit.columnCollapsed;
+    this._rowSizers = rowSizers;
+    this._colSizers = colSizers;
+
+    // Update the box sizing and add it to the size constraints.
+    this._box = boxSizing(this.node);
+    minW += this._box.horizontalSum;
+    minH += this._box.verticalSum;
+    maxW += this._box.horizontalSum;
+    maxH += this._box.verticalSum;
+
+    // Update the panel's size constraints.
+    let style = this.node.style;
+    style.minWidth = minW + 'px';
+    style.minHeight = minH + 'px';
+    style.maxWidth = maxW === Infinity ? 'none' : maxW + 'px';
+    style.maxHeight = maxH === Infinity ? 'none' : maxH + 'px';
+
+    // Notify the parent that it should relayout.
+    if (this.parent) sendMessage(this.parent, Panel.MsgLayoutRequest);
+
+    // Update the layout for the child widgets.
+    sendMessage(this, Widget.MsgUpdateRequest);
+  }
+
+  /**
+   * Layout the children using the given offset width and height.
+   */
+  private _layoutChildren(offsetWidth: number, offsetHeight: number): void {
+    // Bail early if their are no children to arrange.
+    if (this.childCount() === 0) {
+      this._removeDebugOverlay();
+      return;
+    }
+
+    // Ensure the box sizing is created.
+    let box = this._box || (this._box = boxSizing(this.node));
+
+    // Compute the actual layout bounds adjusted for border and padding.
+    let top = box.paddingTop;
+    let left = box.paddingLeft;
+    let width = offsetWidth - box.horizontalSum;
+    let height = offsetHeight - box.verticalSum;
+
+    // Compute the layout of the children within the layout bounds.
+    let items = gridItems(this);
+    let spacing = { rowSpacing: this.rowSpacing, columnSpacing: this.columnSpacing };
+    let fit = {
+      rowCollapsed: this._rowCollapsed,
+      columnCollapsed: this._colCollapsed,
+      rowSizers: this._rowSizers,
+      columnSizers: this._colSizers,
+    };
+    let layout = arrangeTracks(this._rowSpecs, this._colSpecs, spacing, items, fit, width, height, this._rtl);
+
+    // Store the track geometry, offset to the layout bounds.
+    this._rowStarts = layout.rowOffsets.map(pos => pos + top);
+    this._colStarts = layout.columnOffsets.map(pos => pos + left);
+    this._rowSizes = layout.rowSizes;
+    this._colSizes = layout.columnSizes;
+
+    // Update the geometry of the resize handles.
+    let rtl = this._rtl;
+    let rowStarts = this._rowStarts;
+    let colStarts = this._colStarts;
+    let rowSizes = this._rowSizes;
+    let colSizes = this._colSizes;
+    let rowSpacing = this.rowSpacing;
+    let colSpacing = this.columnSpacing;
+    let rowCollapsed = this._rowCollapsed;
+    let colCollapsed = this._colCollapsed;
+    for (let i = 0, n = this._rowHandles.length; i < n; ++i) {
+      let y = rowStarts[i] + rowSizes[i];
+      let hidden = rowCollapsed[i] || rowCollapsed[i + 1];
+      setNodeGeometry(this._rowHandles[i], left, y, width, rowSpacing);
+      this._rowHandles[i].style.display = hidden ? 'none' : '';
+    }
+    for (let i = 0, n = this._colHandles.length; i < n; ++i) {
+      let x = rtl ? colStarts[i] - colSpacing : colStarts[i] + colSizes[i];
+      let hidden = colCollapsed[i] || colCollapsed[i + 1];
+      setNodeGeometry(this._colHandles[i], x, top, colSpacing, height);
+      this._colHandles[i].style.display = hidden ? 'none' : '';
+    }
+
+    // Hide the children whose cells are all collapsed.
+    let stacked = this._isStacked();
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let widget = this.childAt(i);
+      if (!stacked && cellCollapsed(rowCollapsed, colCollapsed, getCell(widget))) {
+        widget.addClass(COLLAPSED_CLASS);
+      } else {
+        widget.removeClass(COLLAPSED_CLASS);
+      }
+    }
+
+    // Offset the child rects to the layout bounds.
+    let rects = layout.rects.map(r => {
+      return { top: r.top + top, left: r.left + left, width: r.width, height: r.height };
+    });
+
+    // Update the geometry of the children.
+    this._updateGeometry(rects);
+
+    // Redraw the debug overlay for the new layout.
+    if (this.debug) {
+      this._renderDebugOverlay(items, rects, top, left, width, height);
+    }
+
+    // Notify the listeners of the final layout.
+    this._emitLayoutCompleted(rects);
+  }
+
+  /**
+   * Draw the debug overlay for the given items and child rects.
+   *
+   * The child rects are offset to the layout bounds.
+   */
+  private _renderDebugOverlay(items: IGridItem[], rects: IRect[], top: number, left: number, width: number, height: number): void {
+    // Ensure the overlay exists and is above the children.
+    let overlay = this._debugOverlay;
+    if (!overlay) {
+      overlay = this._debugOverlay = document.createElement('div');
+      overlay.className = DEBUG_CLASS;
+      this.node.appendChild(overlay);
+    }
+    overlay.style.zIndex = String(topZIndex(this) + 1);
+
+    // Reuse the existing nodes of the overlay for the new drawing.
+    let count = 0;
+    let draw = (className: string, rect: IRect, label: string) => {
+      setDebugNode(overlay, count++, className, rect, label);
+    };
+
+    // Draw the tracks, gutters and cells if the children are placed.
+    let stacked = this._isStacked();
+    if (!stacked) {
+      let rowStarts = this._rowStarts;
+      let colStarts = this._colStarts;
+      let rowSizes = this._rowSizes;
+      let colSizes = this._colSizes;
+      let rowSpecs = this._rowSpecs;
+      let colSpecs = this._colSpecs;
+      let rowCollapsed = this._rowCollapsed;
+      let colCollapsed = this._colCollapsed;
+      for (let i = 0, n = rowSizes.length; i < n; ++i) {
+        let label = trackLabel('Row', i, rowSpecs[i], this._rowSizers[i], rowSizes[i], rowCollapsed[i]);
+        let rect = { top: rowStarts[i], left, width, height: rowSizes[i] };
+        draw(DEBUG_TRACK_CLASS + ' ' + ROW_CLASS, rect, label);
+      }
+      for (let i = 0, n = colSizes.length; i < n; ++i) {
+        let label = trackLabel('Column', i, colSpecs[i], this._colSizers[i], colSizes[i], colCollapsed[i]);
+        let rect = { top, left: colStarts[i], width: colSizes[i], height };
+        draw(DEBUG_TRACK_CLASS + ' ' + COLUMN_CLASS, rect, label);
+      }
+      trackGutters(rowCollapsed, rowStarts, rowSizes).forEach(gutter => {
+        let rect = { top: gutter.offset, left, width, height: gutter.size };
+        draw(DEBUG_GUTTER_CLASS + ' ' + ROW_CLASS, rect, '');
+      });
+      trackGutters(colCollapsed, colStarts, colSizes).forEach(gutter => {
+        let rect = { top, left: gutter.offset, width: gutter.size, height };
+        draw(DEBUG_GUTTER_CLASS + ' ' + COLUMN_CLASS, rect, '');
+      });
+      for (let r = 0, m = rowSizes.length; r < m; ++r) {
+        if (rowCollapsed[r]) continue;
+        for (let c = 0, n = colSizes.length; c < n; ++c) {
+          if (colCollapsed[c]) continue;
+          let rect = this._cellsRect(r, c, 1, 1);
+          draw(DEBUG_CELL_CLASS, rect, r + ',' + c);
+        }
+      }
+    }
+
+    // Highlight the children which do not fill their cells.
+    for (let i = 0, n = items.length; i < n; ++i) {
+      let item = items[i];
+      let rect = rects[i];
+      if (item.hidden) continue;
+      if (!stacked && cellCollapsed(this._rowCollapsed, this._colCollapsed, item)) {
+        continue;
+      }
+      let cell = stacked ? { top, left, width, height } : this._cellsRect(
+        item.row, item.column, item.rowSpan, item.columnSpan
+      );
+      let cellWidth = Math.max(0, cell.width - horizontalMargins(item));
+      let cellHeight = Math.max(0, cell.height - verticalMargins(item));
+      if (rect.width !== cellWidth || rect.height !== cellHeight) {
+        draw(DEBUG_CHILD_CLASS, rect, '');
+      }
+    }
+
+    // Remove the nodes which are no longer drawn.
+    while (overlay.children.length > count) {
+      overlay.removeChild(overlay.lastChild);
+    }
+  }
+
+  /**
+   * Remove the debug overlay from the panel, if it exists.
+   */
+  private _removeDebugOverlay(): void {
+    let overlay = this._debugOverlay;
+    if (overlay && overlay.parentNode === this.node) {
+      this.node.removeChild(overlay);
+    }
+    this._debugOverlay = null;
+  }
+
+  /**
+   * Test whether the children are stacked instead of placed in cells.
+   */
+  private _isStacked(): boolean {
+    return this._rowSizers.length === 0 || this._colSizers.length === 0;
+  }
+
+  /**
+   * Post a layout request to the panel.
+   *
+   * The request is deferred if the panel has an active batch.
+   */
+  private _requestLayout(): void {
+    if (!this._deferLayout()) postMessage(this, Panel.MsgLayoutRequest);
+  }
+
+  /**
+   * Post an update request to the panel.
+   *
+   * The request is deferred if the panel has an active batch.
+   */
+  private _requestUpdate(): void {
+    if (!this._deferLayout()) postMessage(this, Widget.MsgUpdateRequest);
+  }
+
+  /**
+   * End a batch of updates to the grid panel.
+   *
+   * The overlap policy is enforced if `enforce` is `true` and a child
+   * placement was changed during the batch.
+   */
+  private _endUpdate(enforce: boolean): void {
+    if (this._batchDepth === 0 || --this._batchDepth > 0 || !this._batchPending) {
+      return;
+    }
+    let error = enforce && this._batchPlaced ? this._overlapError() : null;
+    this._batchPending = false;
+    this._batchPlaced = false;
+    sendMessage(this, Panel.MsgLayoutRequest);
+    if (error) throw error;
+  }
+
+  /**
+   * Invoke a function which changes the placement of the children.
+   *
+   * The overlap policy is enforced once after the function returns,
+   * instead of for each change, and only if `enforce` is `true`.
+   */
+  private _place<T>(fn: () => T, enforce = true): T {
+    let result: T;
+    this._placeDepth++;
+    try {
+      result = fn();
+    } finally {
+      this._placeDepth--;
+    }
+    if (enforce) this._enforceOverlapPolicy();
+    return result;
+  }
+
+  /**
+   * Enforce the overlap policy after a child placement has changed.
+   *
+   * The check is deferred to the end of an active batch, and skipped
+   * while a placement function is running.
+   */
+  private _enforceOverlapPolicy(): void {
+    if (this._placeDepth > 0) {
+      return;
+    }
+    if (this._batchDepth > 0) {
+      this._batchPlaced = true;
+      return;
+    }
+    let error = this._overlapError();
+    if (error) throw error;
+  }
+
+  /**
+   * Create the error for overlapping children, if any.
+   *
+   * Returns `null` if the overlap policy is not `Error`, or if the
+   * children do not overlap.
+   */
+  private _overlapError(): Error {
+    if (this.overlapPolicy !== OverlapPolicy.Error) {
+      return null;
+    }
+    let overlaps = this._resolveCells(false);
+    if (overlaps.length === 0) {
+      return null;
+    }
+    return new Error(`${overlaps.length} grid panel children overlap.`);
+  }
+
+  /**
+   * Defer the layout work for the panel if it has an active batch.
+   *
+   * Returns `true` if the work was deferred, `false` otherwise.
+   */
+  private _deferLayout(): boolean {
+    if (this._batchDepth === 0) {
+      return false;
+    }
+    this._batchPending = true;
+    return true;
+  }
+
+  /**
+   * Emit the `layoutCompleted` signal for the given child rects.
+   */
+  private _emitLayoutCompleted(rects: IRect[]): void {
+    let widgets: Widget[] = [];
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      widgets.push(this.childAt(i));
+    }
+    this.layoutCompleted.emit({
+      rowOffsets: this.rowOffsets(),
+      rowSizes: this.rowSizes(),
+      columnOffsets: this.columnOffsets(),
+      columnSizes: this.columnSizes(),
+      widgets,
+      rects: rects.map(copyRect),
+    });
+  }
+
+  /**
+   * Compute the offset rect of a range of cells.
+   *
+   * The range is clamped to the current tracks, and the collapsed
+   * tracks at either end of the range are excluded. The result is only
+   * valid after the track positions have been computed for a layout.
+   */
+  private _cellsRect(row: number, column: number, rowSpan: number, columnSpan: number): IRect {
+    let rows = { offsets: this._rowStarts, sizes: this._rowSizes, collapsed: this._rowCollapsed };
+    let cols = { offsets: this._colStarts, sizes: this._colSizes, collapsed: this._colCollapsed };
+    return cellsRect(rows, cols, { row, column, rowSpan, columnSpan });
+  }
+
+  /**
+   * Clamp a resolved cell to the current tracks of the panel.
+   */
+  private _clampCell(cell: ICell): ICell {
+    return clampCell(cell, this._rowSizers.length, this._colSizers.length);
+  }
+
+  /**
+   * Find the cell nearest to a client position.
+   *
+   * Returns `null` if the panel has no tracks.
+   */
+  private _cellAt(clientX: number, clientY: number): ICellPosition {
+    if (this._isStacked()) {
+      return null;
+    }
+    let rect = this.node.getBoundingClientRect();
+    let box = this._box || (this._box = boxSizing(this.node));
+    let x = clientX - rect.left - box.borderLeft;
+    let y = clientY - rect.top - box.borderTop;
+    let row = nearestTrack(this._rowStarts, this._rowSizes, y);
+    let column = nearestTrack(this._colStarts, this._colSizes, x);
+    return { row, column };
+  }
+
+  /**
+   * Move the children to the given rects, animating if enabled.
+   *
+   * The rects are given in child order.
+   */
+  private _updateGeometry(rects: IRect[]): void {
+    // Cancel the current animation, keeping its items for reference.
+    let previous = this._animation ? this._animation.items : [];
+    this._stopAnimation();
+
+    // Move the children which cannot be animated immediately.
+    let duration = this.animationDuration;
+    let items: IAnimationItem[] = [];
+    for (let i = 0, n = rects.length; i < n; ++i) {
+      let widget = this.childAt(i);
+      let from = getRect(widget);
+      let to = rects[i];
+      let resized = previous.some(item => item.widget === widget && item.resized);
+      applyZIndex(widget);
+      if (duration === 0 || isNaN(from.width) || isNaN(from.height)) {
+        finishGeometry(widget, to, resized);
+      } else if (!sameRect(from, to)) {
+        resized = resized || from.width !== to.width || from.height !== to.height;
+        items.push({ widget, from: copyRect(from), to, resized });
+      } else if (resized) {
+        finishGeometry(widget, to, resized);
+      }
+    }
+
+    // Start the animation for the remaining children.
+    if (items.length > 0) {
+      this._startAnimation(items, duration);
+    }
+  }
+
+  /**
+   * Start an animation of the given items over a duration.
+   */
+  private _startAnimation(items: IAnimationItem[], duration: number): void {
+    let start = Date.now();
+    let tick = () => {
+      let t = Math.min(1, (Date.now() - start) / duration);
+      let ease = t * (2 - t);
+      for (let i = 0, n = items.length; i < n; ++i) {
+        let { widget, from, to, resized } = items[i];
+        if (widget.parent !== this) {
+          continue;
+        }
+        if (t === 1) {
+          finishGeometry(widget, to, resized);
+        } else {
+          let left = from.left + (to.left - from.left) * ease;
+          let top = from.top + (to.top - from.top) * ease;
+          let width = from.width + (to.width - from.width) * ease;
+          let height = from.height + (to.height - from.height) * ease;
+          moveGeometry(widget, left, top, width, height);
+        }
+      }
+      if (t === 1) {
+        this._animation = null;
+      } else {
+        this._animation.frame = requestAnimationFrame(tick);
+      }
+    };
+    this._animation = { frame: requestAnimationFrame(tick), items };
+  }
+
+  /**
+   * Cancel the current animation, if any.
+   *
+   * The children are left at their current geometry.
+   */
+  private _stopAnimation(): void {
+    if (!this._animation) {
+      return;
+    }
+    cancelAnimationFrame(this._animation.frame);
+    this._animation = null;
+  }
+
+  /**
+   * Activate the breakpoint which matches the given offset size.
+   *
+   * Returns `true` if the layout has been recomputed for a new active
+   * breakpoint. A breakpoint whose state cannot be restored is still
+   * made active, but its state is skipped and the failure is emitted.
+   */
+  private _syncBreakpoint(width: number, height: number): boolean {
+    let breakpoint = matchBreakpoint(this.breakpoints, width, height);
+    if (!breakpoint || breakpoint === this._breakpoint) {
+      return false;
+    }
+    this._breakpoint = breakpoint;
+    try {
+      this._place(() => { this.restoreState(breakpoint.state); }, false);
+    } catch (error) {
+      this.breakpointFailed.emit({ breakpoint, error });
+      return false;
+    }
+    sendMessage(this, Panel.MsgLayoutRequest);
+    this.layoutChanged.emit(breakpoint);
+    return true;
+  }
+
+  /**
+   * Get the children which are explicitly placed by row and column.
+   *
+   * This excludes the children placed by a template area or by auto
+   * placement, whose position does not follow a track index.
+   */
+  private _placedChildren(): Widget[] {
+    let result: Widget[] = [];
+    let auto = this.autoFlow !== AutoFlow.None;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let widget = this.childAt(i);
+      if (this._areas[GridPanel.getArea(widget)]) {
+        continue;
+      }
+      if (auto && GridPanel.getAutoPlace(widget)) {
+        continue;
+      }
+      result.push(widget);
+    }
+    return result;
+  }
+
+  /**
+   * Insert a row or column spec and shift the placed children.
+   */
+  private _insertTrack(isRow: boolean, index: number, spec: Spec): void {
+    let specs = (isRow ? this.rowSpecs : this.columnSpecs).slice();
+    let pos = isRow ? GridPanel.rowProperty : GridPanel.columnProperty;
+    let span = isRow ? GridPanel.rowSpanProperty : GridPanel.columnSpanProperty;
+    index = Math.max(0, Math.min(index | 0, specs.length));
+    let children = this._placedChildren();
+    for (let i = 0, n = children.length; i < n; ++i) {
+      let widget = children[i];
+      let first = pos.get(widget);
+      if (first >= index) {
+        pos.set(widget, first + 1);
+      } else if (first + span.get(widget) > index) {
+        span.set(widget, span.get(widget) + 1);
+      }
+    }
+    specs.splice(index, 0, spec);
+    if (isRow) {
+      this.rowSpecs = specs;
+    } else {
+      this.columnSpecs = specs;
+    }
+  }
+
+  /**
+   * Remove a row or column spec and shift the placed children.
+   */
+  private _removeTrack(isRow: boolean, index: number): Widget[] {
+    let specs = (isRow ? this.rowSpecs : this.columnSpecs).slice();
+    if (index < 0 || index >= specs.length) {
+      return [];
+    }
+    let pos = isRow ? GridPanel.rowProperty : GridPanel.columnProperty;
+    let span = isRow ? GridPanel.rowSpanProperty : GridPanel.columnSpanProperty;
+    let orphans: Widget[] = [];
+    let children = this._placedChildren();
+    for (let i = 0, n = children.length; i < n; ++i) {
+      let widget = children[i];
+      let first = pos.get(widget);
+      let count = span.get(widget);
+      if (first > index) {
+        pos.set(widget, first - 1);
+      } else if (first + count <= index) {
+        continue;
+      } else if (count > 1) {
+        span.set(widget, count - 1);
+      } else {
+        orphans.push(widget);
+      }
+    }
+    specs.splice(index, 1);
+    if (isRow) {
+      this.rowSpecs = specs;
+    } else {
+      this.columnSpecs = specs;
+    }
+    return orphans;
+  }
+
+  /**
+   * Move a row or column spec and remap the placed children.
+   */
+  private _moveTrack(isRow: boolean, fromIndex: number, toIndex: number): void {
+    let specs = (isRow ? this.rowSpecs : this.columnSpecs).slice();
+    if (fromIndex < 0 || fromIndex >= specs.length) {
+      return;
+    }
+    toIndex = Math.max(0, Math.min(toIndex | 0, specs.length - 1));
+    if (fromIndex === toIndex) {
+      return;
+    }
+    let pos = isRow ? GridPanel.rowProperty : GridPanel.columnProperty;
+    let children = this._placedChildren();
+    for (let i = 0, n = children.length; i < n; ++i) {
+      let widget = children[i];
+      let first = pos.get(widget);
+      let moved = movedIndex(first, fromIndex, toIndex);
+      if (moved !== first) pos.set(widget, moved);
+    }
+    specs.splice(toIndex, 0, specs.splice(fromIndex, 1)[0]);
+    if (isRow) {
+      this.rowSpecs = specs;
+    } else {
+      this.columnSpecs = specs;
+    }
+  }
+
+  /**
+   * Resolve the grid cells occupied by the child widgets.
+   *
+   * The resolved cells are stored for the children if `store` is
+   * `true`. Returns the children which overlap another child, in
+   * child order.
+   */
+  private _resolveCells(store: boolean): Widget[] {
+    // Resolve the explicitly placed children first.
+    let pending: ICell[] = [];
+    let pendingWidgets: Widget[] = [];
+    let overlaps: Widget[] = [];
+    let owners: { [key: string]: Widget } = Object.create(null);
+    let occupied: { [key: string]: boolean } = Object.create(null);
+    let auto = this.autoFlow !== AutoFlow.None;
+    let displace = this.overlapPolicy === OverlapPolicy.Displace;
+    let rowCount = Math.max(this.rowSpecs.length, this.autoRowSpec ? 1 : 0);
+    let colCount = Math.max(this.columnSpecs.length, this.autoColumnSpec ? 1 : 0);
+    let maxRows = this.autoRowSpec || rowCount === 0 ? Infinity : rowCount;
+    let maxCols = this.autoColumnSpec || colCount === 0 ? Infinity : colCount;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      let widget = this.childAt(i);
+      let area = this._areas[GridPanel.getArea(widget)];
+      let cell: ICell;
+      if (area) {
+        let { row, column, rowSpan, columnSpan } = area;
+        cell = { row, column, rowSpan, columnSpan };
+      } else {
+        cell = createCell(widget);
+      }
+      if (store) setCell(widget, cell);
+      if (!area && auto && GridPanel.getAutoPlace(widget)) {
+        pending.push(cell);
+        pendingWidgets.push(widget);
+        continue;
+      }
+      let bounds = clampCell(cell, maxRows, maxCols);
+      let others = findOwners(owners, bounds);
+      addOverlaps(overlaps, others, widget);
+      if (others.length > 0 && displace) {
+        pending.push(cell);
+        pendingWidgets.push(widget);
+      } else {
+        claimCells(owners, bounds, widget);
+        markCell(occupied, bounds);
+      }
+    }
+
+    // Place the remaining children into the free cells. A child placed
+    // beyond the last track is clamped, and may overlap another child.
+    let flow = auto ? this.autoFlow : AutoFlow.Row;
+    if (pending.length > 0 && rowCount > 0 && colCount > 0) {
+      autoPlace(occupied, pending, flow, rowCount, colCount);
+      for (let i = 0, n = pending.length; i < n; ++i) {
+        let bounds = clampCell(pending[i], maxRows, maxCols);
+        addOverlaps(overlaps, findOwners(owners, bounds), pendingWidgets[i]);
+        claimCells(owners, bounds, pendingWidgets[i]);
+      }
+    }
+
+    // Return the overlapping children in child order.
+    return overlaps.sort((a, b) => this.childIndex(a) - this.childIndex(b));
+  }
+
+  /**
+   * Handle the `'mousedown'` event for the grid panel.
+   */
+  private _evtMouseDown(event: MouseEvent): void {
+    if (event.button !== 0 || this._pressData || this._dragData) {
+      return;
+    }
+    let target = event.target as HTMLElement;
+    let index = this._rowHandles.indexOf(target);
+    let axis = 'row';
+    if (index === -1) {
+      index = this._colHandles.indexOf(target);
+      axis = 'column';
+    }
+    if (index === -1) {
+      if (this.draggable) this._pressChild(event);
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    document.addEventListener('mouseup', this, true);
+    document.addEventListener('mousemove', this, true);
+    document.addEventListener('keydown', this, true);
+    let specs = axis === 'row' ? this.rowSpecs : this.columnSpecs;
+    let all = axis === 'row' ? this._rowSizes : this._colSizes;
+    let sizes = all.slice(0, specs.length);
+    let space = all.reduce((total, size) => total + size, 0);
+    let pos = axis === 'row' ? event.clientY : event.clientX;
+    let cursor = window.getComputedStyle(target).cursor;
+    let override = overrideCursor(cursor);
+    let moved = false;
+    let bases = specs.map(spec => spec.sizeBasis);
+    let stretches = specs.map(spec => spec.stretch);
+    this._pressData = { axis, index, pos, sizes, space, moved, bases, stretches, override };
+  }
+
+  /**
+   * Handle the `'mousemove'` event for the grid panel.
+   */
+  private _evtMouseMove(event: MouseEvent): void {
+    if (this._dragData) {
+      this._dragChild(event);
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let data = this._pressData;
+    let isRow = data.axis === 'row';
+    let specs = isRow ? this.rowSpecs : this.columnSpecs;
+    let sizers = isRow ? this._rowSizers : this._colSizers;
+    let collapsed = isRow ? this._rowCollapsed : this._colCollapsed;
+    let i = data.index;
+    if (i + 1 >= sizers.length || specs.length !== data.sizes.length) {
+      return;
+    }
+    let size1 = data.sizes[i];
+    let size2 = data.sizes[i + 1];
+    let min = Math.max(sizers[i].minSize - size1, size2 - sizers[i + 1].maxSize);
+    let max = Math.min(sizers[i].maxSize - size1, size2 - sizers[i + 1].minSize);
+    let pos = isRow ? event.clientY : event.clientX;
+    let move = !isRow && this._rtl ? data.pos - pos : pos - data.pos;
+    let delta = Math.max(min, Math.min(move, max));
+    let sizes = data.sizes.slice();
+    sizes[i] = size1 + delta;
+    sizes[i + 1] = size2 - delta;
+    specs[i].stretch = 0;
+    specs[i + 1].stretch = 0;
+    for (let j = 0, n = specs.length; j < n; ++j) {
+      if (!collapsed[j]) {
+        specs[j].sizeBasis = toBasis(specs[j], sizes[j], data.space);
+      }
+    }
+    data.moved = true;
+  }
+
+  /**
+   * Handle the `'mouseup'` event for the grid panel.
+   */
+  private _evtMouseUp(event: MouseEvent): void {
+    if (event.button !== 0) {
+      return;
+    }
+    if (this._dragData) {
+      this._dropChild(event);
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let data = this._pressData;
+    this._releaseMouse();
+    if (!data.moved) {
+      return;
+    }
+    let specs = data.axis === 'row' ? this.rowSpecs : this.columnSpecs;
+    let sizes = specs.map(spec => spec.sizeBasis);
+    this.tracksResized.emit({ axis: data.axis, index: data.index, sizes });
+  }
+
+  /**
+   * Handle the `'keydown'` event for the grid panel.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    if (event.keyCode !== 27) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let data = this._pressData;
+    this._releaseMouse();
+    if (!data || !data.moved) {
+      return;
+    }
+    let specs = data.axis === 'row' ? this.rowSpecs : this.columnSpecs;
+    if (specs.length !== data.bases.length) {
+      return;
+    }
+    for (let i = 0, n = specs.length; i < n; ++i) {
+      specs[i].sizeBasis = data.bases[i];
+      specs[i].stretch = data.stretches[i];
+    }
+  }
+
+  /**
+   * Release the mouse grab for the grid panel.
+   */
+  private _releaseMouse(): void {
+    let drag = this._dragData;
+    if (drag) {
+      this._dragData = null;
+      drag.widget.removeClass(DRAGGING_CLASS);
+      if (drag.override) drag.override.dispose();
+      let indicator = this._dropIndicator;
+      if (indicator && indicator.parentNode) {
+        indicator.parentNode.removeChild(indicator);
+      }
+    } else if (this._pressData) {
+      this._pressData.override.dispose();
+      this._pressData = null;
+    } else {
+      return;
+    }
+    document.removeEventListener('mouseup', this, true);
+    document.removeEventListener('mousemove', this, true);
+    document.removeEventListener('keydown', this, true);
+  }
+
+  /**
+   * Handle a `'mousedown'` event which may start a child drag.
+   */
+  private _pressChild(event: MouseEvent): void {
+    let target = event.target as HTMLElement;
+    let widget: Widget = null;
+    for (let i = 0, n = this.childCount(); i < n; ++i) {
+      if (this.childAt(i).node.contains(target)) {
+        widget = this.childAt(i);
+        break;
+      }
+    }
+    let pos = this._cellAt(event.clientX, event.clientY);
+    if (!widget || !pos) {
+      return;
+    }
+    document.addEventListener('mouseup', this, true);
+    document.addEventListener('mousemove', this, true);
+    document.addEventListener('keydown', this, true);
+    let cell = getCell(widget);
+    this._dragData = {
+      widget,
+      x: event.clientX,
+      y: event.clientY,
+      rowOffset: Math.max(0, pos.row - cell.row),
+      columnOffset: Math.max(0, pos.column - cell.column),
+      row: cell.row,
+      column: cell.column,
+      override: null,
+    };
+  }
+
+  /**
+   * Handle a `'mousemove'` event for a child drag.
+   */
+  private _dragChild(event: MouseEvent): void {
+    let data = this._dragData;
+    if (!data.override) {
+      let dx = Math.abs(event.clientX - data.x);
+      let dy = Math.abs(event.clientY - data.y);
+      if (dx < DRAG_THRESHOLD && dy < DRAG_THRESHOLD) {
+        return;
+      }
+      data.override = overrideCursor('move');
+      data.widget.addClass(DRAGGING_CLASS);
+      if (!this._dropIndicator) {
+        this._dropIndicator = document.createElement('div');
+        this._dropIndicator.className = DROP_INDICATOR_CLASS;
+      }
+      this._dropIndicator.style.zIndex = String(topZIndex(this) + 1);
+      this.node.appendChild(this._dropIndicator);
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let pos = this._cellAt(event.clientX, event.clientY);
+    if (!pos) {
+      return;
+    }
+    let cell = getCell(data.widget);
+    let rowSpan = Math.min(cell.rowSpan, this._rowSizers.length);
+    let colSpan = Math.min(cell.columnSpan, this._colSizers.length);
+    let maxRow = this._rowSizers.length - rowSpan;
+    let maxCol = this._colSizers.length - colSpan;
+    data.row = Math.max(0, Math.min(pos.row - data.rowOffset, maxRow));
+    data.column = Math.max(0, Math.min(pos.column - data.columnOffset, maxCol));
+    let r = this._cellsRect(data.row, data.column, rowSpan, colSpan);
+    setNodeGeometry(this._dropIndicator, r.left, r.top, r.width, r.height);
+  }
+
+  /**
+   * Handle a `'mouseup'` event for a child drag.
+   */
+  private _dropChild(event: MouseEvent): void {
+    let data = this._dragData;
+    this._releaseMouse();
+    if (!data.override) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    let { widget, row, column } = data;
+    let cell = getCell(widget);
+    if (row === cell.row && column === cell.column) {
+      return;
+    }
+    let args: IChildMoveRequestedArgs = {
+      widget,
+      fromRow: cell.row,
+      fromColumn: cell.column,
+      row,
+      column,
+      cancel: false,
+    };
+    this.childMoveRequested.emit(args);
+    if (args.cancel || widget.parent !== this) {
+      return;
+    }
+    this._place(() => {
+      GridPanel.setArea(widget, '');
+      GridPanel.setRow(widget, row);
+      GridPanel.setColumn(widget, column);
+    }, false);
+  }
+
+  /**
+   * The change handler for the `templateAreas` property.
+   */
+  private _onTemplateAreasChanged(template: string[]): void {
+    this._areas = parseTemplateAreas(template);
+    this._requestLayout();
+  }
+
+  /**
+   * The change handler for the `breakpoints` property.
+   */
+  private _onBreakpointsChanged(): void {
+    this._breakpoint = null;
+    this._requestUpdate();
+  }
+
+  /**
+   * The change handler for the `rowSpecs` property.
+   */
+  private _onRowSpecsChanged(old: Spec[], specs: Spec[]): void {
+    for (let i = 0, n = old.length; i < n; ++i) {
+      if (specs.indexOf(old[i]) === -1) {
+        old[i].changed.disconnect(this._onRowSpecChanged, this);
+      }
+    }
+    for (let i = 0, n = specs.length; i < n; ++i) {
+      if (old.indexOf(specs[i]) === -1) {
+        specs[i].changed.connect(this._onRowSpecChanged, this);
+      }
+    }
+    this._requestLayout();
+  }
+
+  /**
+   * The change handler for the `columnSpecs` property.
+   */
+  private _onColSpecsChanged(old: Spec[], specs: Spec[]): void {
+    for (let i = 0, n = old.length; i < n; ++i) {
+      if (specs.indexOf(old[i]) === -1) {
         old[i].changed.disconnect(this._onColSpecChanged, this);
       }
     }
-    for (let i = 0, n = specs.length; i < n; ++i) {
-      if (old.indexOf(specs[i]) === -1) {
-        specs[i].changed.connect(this._onColSpecChanged, this);
+    for (let i = 0, n = specs.length; i < n; ++i) {
+      if (old.indexOf(specs[i]) === -1) {
+        specs[i].changed.connect(this._onColSpecChanged, this);
+      }
+    }
+    this._requestLayout();
+  }
+
+  /**
+   * The change handler for the implicit spec properties.
+   */
+  private _onAutoSpecChanged(old: Spec, spec: Spec): void {
+    if (old) old.changed.disconnect(this._onAutoSpecModified, this);
+    if (spec) spec.changed.connect(this._onAutoSpecModified, this);
+    this._requestLayout();
+  }
+
+  /**
+   * The change handler for an implicit spec `changed` signal.
+   */
+  private _onAutoSpecModified(sender: Spec, args: IChangedArgs<any>): void {
+    this._requestLayout();
+  }
+
+  /**
+   * The change handler for a row spec `changed` signal.
+   */
+  private _onRowSpecChanged(sender: Spec, args: IChangedArgs<any>): void {
+    this._requestLayout();
+  }
+
+  /**
+   * The change handler for a column spec `changed` signal.
+   */
+  private _onColSpecChanged(sender: Spec, args: IChangedArgs<any>): void {
+    this._requestLayout();
+  }
+
+  private _rtl = false;
+  private _box: IBoxSizing = null;
+  private _breakpoint: IBreakpoint = null;
+  private _pressData: IPressData = null;
+  private _dragData: IDragData = null;
+  private _dropIndicator: HTMLElement = null;
+  private _debugOverlay: HTMLElement = null;
+  private _batchDepth = 0;
+  private _batchPending = false;
+  private _batchPlaced = false;
+  private _placeDepth = 0;
+  private _animation: IAnimation = null;
+  private _areas: { [name: string]: ICell } = Object.create(null);
+  private _rowHandles: HTMLElement[] = [];
+  private _colHandles: HTMLElement[] = [];
+  private _rowSpecs: Spec[] = [];
+  private _colSpecs: Spec[] = [];
+  private _rowCollapsed: boolean[] = [];
+  private _colCollapsed: boolean[] = [];
+  private _rowStarts: number[] = [];
+  private _colStarts: number[] = [];
+  private _rowSizers: BoxSizer[] = [];
+  private _colSizers: BoxSizer[] = [];
+  private _rowSizes: number[] = [];
+  private _colSizes: number[] = [];
+}
+
+
+/**
+ * The arguments object for the `tracksResized` signal.
+ */
+export
+interface ITracksResizedArgs {
+  /**
+   * The axis of the resized tracks, either `'row'` or `'column'`.
+   */
+  axis: string;
+
+  /**
+   * The index of the track before the dragged handle.
+   */
+  index: number;
+
+  /**
+   * The new size basis of each spec along the resized axis.
+   */
+  sizes: number[];
+}
+
+
+/**
+ * The arguments object for the `childMoveRequested` signal.
+ */
+export
+interface IChildMoveRequestedArgs {
+  /**
+   * The child widget which was dropped.
+   */
+  widget: Widget;
+
+  /**
+   * The row index of the child before the move.
+   */
+  fromRow: number;
+
+  /**
+   * The column index of the child before the move.
+   */
+  fromColumn: number;
+
+  /**
+   * The row index on which the child was dropped.
+   */
+  row: number;
+
+  /**
+   * The column index on which the child was dropped.
+   */
+  column: number;
+
+  /**
+   * Whether the move should be cancelled.
+   *
+   * A signal handler may set this to `true` to prevent the panel
+   * from updating the placement of the child.
+   */
+  cancel: boolean;
+}
+
+
+/**
+ * The arguments object for the `overlapDetected` signal.
+ */
+export
+interface IOverlapDetectedArgs {
+  /**
+   * The children which share a grid cell with another child.
+   *
+   * The children are listed in child order.
+   */
+  widgets: Widget[];
+}
+
+
+/**
+ * An object which holds the saved placement of a grid panel child.
+ */
+export
+interface IChildState {
+  /**
+   * The key which identifies the child widget.
+   */
+  key: string;
+
+  /**
+   * The grid row index of the child.
+   */
+  row: number;
+
+  /**
+   * The grid column index of the child.
+   */
+  column: number;
+
+  /**
+   * The grid row span of the child.
+   */
+  rowSpan: number;
+
+  /**
+   * The grid column span of the child.
+   */
+  columnSpan: number;
+
+  /**
+   * The grid area name of the child, if saved.
+   */
+  area?: string;
+
+  /**
+   * The auto placement flag of the child, if saved.
+   */
+  autoPlace?: boolean;
+}
+
+
+/**
+ * An object which holds the saved layout state of a grid panel.
+ */
+export
+interface IGridState {
+  /**
+   * The options for the row specs of the panel.
+   */
+  rowSpecs: ISpecOptions[];
+
+  /**
+   * The options for the column specs of the panel.
+   */
+  columnSpecs: ISpecOptions[];
+
+  /**
+   * The row spacing of the panel.
+   */
+  rowSpacing: number;
+
+  /**
+   * The column spacing of the panel.
+   */
+  columnSpacing: number;
+
+  /**
+   * The template areas of the panel, if saved.
+   */
+  templateAreas?: string[];
+
+  /**
+   * The auto flow mode of the panel, if saved.
+   */
+  autoFlow?: AutoFlow;
+
+  /**
+   * The options for the implicit row spec of the panel, if saved.
+   *
+   * A `null` value means the panel has no implicit row spec.
+   */
+  autoRowSpec?: ISpecOptions;
+
+  /**
+   * The options for the implicit column spec of the panel, if saved.
+   *
+   * A `null` value means the panel has no implicit column spec.
+   */
+  autoColumnSpec?: ISpecOptions;
+
+  /**
+   * The placement of the keyed children of the panel.
+   */
+  children: IChildState[];
+}
+
+
+/**
+ * An object which describes a responsive layout of a grid panel.
+ */
+export
+interface IBreakpoint {
+  /**
+   * The name of the breakpoint.
+   */
+  name: string;
+
+  /**
+   * The minimum offset width of the panel for the breakpoint.
+   *
+   * The default is `0`.
+   */
+  minWidth?: number;
+
+  /**
+   * The minimum offset height of the panel for the breakpoint.
+   *
+   * The default is `0`.
+   */
+  minHeight?: number;
+
+  /**
+   * The layout state to apply when the breakpoint becomes active.
+   */
+  state: IGridState;
+}
+
+
+/**
+ * The arguments object for the `breakpointFailed` signal.
+ */
+export
+interface IBreakpointFailedArgs {
+  /**
+   * The breakpoint whose state could not be restored.
+   */
+  breakpoint: IBreakpoint;
+
+  /**
+   * The error thrown while validating the breakpoint state.
+   */
+  error: Error;
+}
+
+
+/**
+ * An object which identifies a single grid cell.
+ */
+export
+interface ICellPosition {
+  /**
+   * The row index of the cell.
+   */
+  row: number;
+
+  /**
+   * The column index of the cell.
+   */
+  column: number;
+}
+
+
+/**
+ * The arguments object for the `layoutCompleted` signal.
+ *
+ * #### Notes
+ * The rects are given in child order.
+ */
+export
+interface ILayoutCompletedArgs extends IGridLayout {
+  /**
+   * The children of the panel, in child order.
+   */
+  widgets: Widget[];
+}
+
+
+/**
+ * An object which holds mouse press data.
+ */
+interface IPressData {
+  /**
+   * The axis of the pressed handle, either `'row'` or `'column'`.
+   */
+  axis: string;
+
+  /**
+   * The index of the track before the pressed handle.
+   */
+  index: number;
+
+  /**
+   * The client position of the mouse press along the axis.
+   */
+  pos: number;
+
+  /**
+   * The sizes of the tracks along the axis when the mouse was pressed.
+   */
+  sizes: number[];
+
+  /**
+   * The space available to the tracks along the axis when pressed.
+   */
+  space: number;
+
+  /**
+   * Whether the handle has been moved since the mouse was pressed.
+   */
+  moved: boolean;
+
+  /**
+   * The size basis of the specs along the axis when pressed.
+   */
+  bases: number[];
+
+  /**
+   * The stretch factor of the specs along the axis when pressed.
+   */
+  stretches: number[];
+
+  /**
+   * The disposable which will clear the override cursor.
+   */
+  override: IDisposable;
+}
+
+
+/**
+ * An object which holds child drag data.
+ */
+interface IDragData {
+  /**
+   * The child widget being dragged.
+   */
+  widget: Widget;
+
+  /**
+   * The client X position of the mouse press.
+   */
+  x: number;
+
+  /**
+   * The client Y position of the mouse press.
+   */
+  y: number;
+
+  /**
+   * The row of the pressed cell relative to the child's first row.
+   */
+  rowOffset: number;
+
+  /**
+   * The column of the pressed cell relative to the child's first column.
+   */
+  columnOffset: number;
+
+  /**
+   * The current target row of the drag.
+   */
+  row: number;
+
+  /**
+   * The current target column of the drag.
+   */
+  column: number;
+
+  /**
+   * The disposable which will clear the override cursor.
+   *
+   * This is `null` until the drag threshold has been exceeded.
+   */
+  override: IDisposable;
+}
+
+
+/**
+ * An object which holds the state of a child geometry animation.
+ */
+interface IAnimation {
+  /**
+   * The id of the pending animation frame request.
+   */
+  frame: number;
+
+  /**
+   * The children being animated.
+   */
+  items: IAnimationItem[];
+}
+
+
+/**
+ * An object which describes the animation of a single child.
+ */
+interface IAnimationItem {
+  /**
+   * The child widget being animated.
+   */
+  widget: Widget;
+
+  /**
+   * The offset rect of the child when the animation started.
+   */
+  from: IRect;
+
+  /**
+   * The target offset rect of the child.
+   */
+  to: IRect;
+
+  /**
+   * Whether the child must be sent a resize message when finished.
+   */
+  resized: boolean;
+}
+
+
+/**
+ * An object which holds the geometry of a spacing gutter.
+ */
+interface IGutter {
+  /**
+   * The offset of the gutter, in pixels.
+   */
+  offset: number;
+
+  /**
+   * The size of the gutter, in pixels.
+   */
+  size: number;
+}
+
+
+/**
+ * A private attached property which stores a widget offset rect.
+ */
+const rectProperty = new Property<Widget, IRect>({
+  name: 'rect',
+  create: createRect,
+});
+
+
+/**
+ * A private attached property which stores a widget's size limits.
+ */
+const limitsProperty = new Property<Widget, ISizeLimits>({
+  name: 'limits',
+  create: owner => sizeLimits(owner.node),
+});
+
+
+/**
+ * A private attached property which stores a widget's resolved cell.
+ */
+const cellProperty = new Property<Widget, ICell>({
+  name: 'cell',
+  create: createCell,
+});
+
+
+/**
+ * Create a new offset rect filled with NaNs.
+ */
+function createRect(): IRect {
+  return { top: NaN, left: NaN, width: NaN, height: NaN };
+}
+
+
+/**
+ * Get the offset rect for a widget.
+ */
+function getRect(widget: Widget): IRect {
+  return rectProperty.get(widget);
+}
+
+
+/**
+ * Create a grid cell from the attached properties of a widget.
+ */
+function createCell(widget: Widget): ICell {
+  return {
+    row: GridPanel.getRow(widget),
+    column: GridPanel.getColumn(widget),
+    rowSpan: GridPanel.getRowSpan(widget),
+    columnSpan: GridPanel.getColumnSpan(widget),
+  };
+}
+
+
+/**
+ * Get the resolved grid cell for a widget.
+ */
+function getCell(widget: Widget): ICell {
+  return cellProperty.get(widget);
+}
+
+
+/**
+ * Set the resolved grid cell for a widget.
+ */
+function setCell(widget: Widget, value: ICell): void {
+  cellProperty.set(widget, value);
+}
+
+
+/**
+ * Get the cached size limits for a widget.
+ */
+function getLimits(widget: Widget): ISizeLimits {
+  return limitsProperty.get(widget);
+}
+
+
+/**
+ * Set the cached size limits for a widget.
+ */
+function setLimits(widget: Widget, value: ISizeLimits): void {
+  return limitsProperty.set(widget, value);
+}
+
+
+/**
+ * Apply the stacking order of a widget to its node.
+ */
+function applyZIndex(widget: Widget): void {
+  let zIndex = GridPanel.getZIndex(widget);
+  widget.node.style.zIndex = zIndex === 0 ? '' : String(zIndex);
+}
+
+
+/**
+ * Get the largest `zIndex` of the children of a grid panel.
+ *
+ * Returns `0` if no child has a larger `zIndex`.
+ */
+function topZIndex(panel: GridPanel): number {
+  let max = 0;
+  for (let i = 0, n = panel.childCount(); i < n; ++i) {
+    max = Math.max(max, GridPanel.getZIndex(panel.childAt(i)));
+  }
+  return max;
+}
+
+
+/**
+ * Set the offset geometry for the given widget.
+ *
+ * A resize message will be dispatched to the widget if appropriate.
+ */
+function setGeometry(widget: Widget, left: number, top: number, width: number, height: number): void {
+  let rect = getRect(widget);
+  let resized = rect.width !== width || rect.height !== height;
+  moveGeometry(widget, left, top, width, height);
+  if (resized) {
+    sendMessage(widget, new ResizeMessage(width, height));
+  }
+}
+
+
+/**
+ * Set the offset geometry for the given widget without a resize message.
+ */
+function moveGeometry(widget: Widget, left: number, top: number, width: number, height: number): void {
+  let rect = getRect(widget);
+  let style = widget.node.style;
+  if (rect.top !== top) {
+    rect.top = top;
+    style.top = top + 'px';
+  }
+  if (rect.left !== left) {
+    rect.left = left;
+    style.left = left + 'px';
+  }
+  if (rect.width !== width) {
+    rect.width = width;
+    style.width = width + 'px';
+  }
+  if (rect.height !== height) {
+    rect.height = height;
+    style.height = height + 'px';
+  }
+}
+
+
+/**
+ * Set the final offset geometry for a widget.
+ *
+ * If `resized` is true, a resize message is dispatched to the widget
+ * even when its size matches the cached size.
+ */
+function finishGeometry(widget: Widget, rect: IRect, resized: boolean): void {
+  let current = getRect(widget);
+  if (resized && current.width === rect.width && current.height === rect.height) {
+    sendMessage(widget, new ResizeMessage(rect.width, rect.height));
+  }
+  setGeometry(widget, rect.left, rect.top, rect.width, rect.height);
+}
+
+
+/**
+ * Create a copy of an offset rect.
+ */
+function copyRect(rect: IRect): IRect {
+  let { top, left, width, height } = rect;
+  return { top, left, width, height };
+}
+
+
+/**
+ * Test whether two offset rects are equal.
+ */
+function sameRect(a: IRect, b: IRect): boolean {
+  return (
+    a.top === b.top && a.left === b.left &&
+    a.width === b.width && a.height === b.height
+  );
+}
+
+
+/**
+ * Test whether the columns of a grid panel are laid out right-to-left.
+ */
+function isRightToLeft(panel: GridPanel): boolean {
+  switch (panel.direction) {
+  case Direction.LeftToRight:
+    return false;
+  case Direction.RightToLeft:
+    return true;
+  }
+  return window.getComputedStyle(panel.node).direction === 'rtl';
+}
+
+
+/**
+ * Create the layout items for the children of a grid panel.
+ *
+ * The items use the resolved cells and cached size limits of the
+ * children, so they are only valid after the cells are resolved.
+ */
+function gridItems(panel: GridPanel): IGridItem[] {
+  let items: IGridItem[] = [];
+  for (let i = 0, n = panel.childCount(); i < n; ++i) {
+    let widget = panel.childAt(i);
+    let { row, column, rowSpan, columnSpan } = getCell(widget);
+    let { minWidth, minHeight, maxWidth, maxHeight } = getLimits(widget);
+    items.push({
+      row, column, rowSpan, columnSpan,
+      minWidth, minHeight, maxWidth, maxHeight,
+      marginTop: GridPanel.getMarginTop(widget),
+      marginRight: GridPanel.getMarginRight(widget),
+      marginBottom: GridPanel.getMarginBottom(widget),
+      marginLeft: GridPanel.getMarginLeft(widget),
+      horizontalAlignment: GridPanel.getHorizontalAlignment(widget),
+      verticalAlignment: GridPanel.getVerticalAlignment(widget),
+      hidden: widget.isHidden,
+    });
+  }
+  return items;
+}
+
+
+/**
+ * Reset the inline geometry and rect cache for the given widget
+ */
+function resetGeometry(widget: Widget): void {
+  let rect = getRect(widget);
+  let style = widget.node.style;
+  rect.top = NaN;
+  rect.left = NaN;
+  rect.width = NaN;
+  rect.height = NaN;
+  style.top = '';
+  style.left = '';
+  style.width = '';
+  style.height = '';
+  style.zIndex = '';
+}
+
+
+/**
+ * Mark the grid cells covered by a cell as occupied.
+ */
+function markCell(occupied: { [key: string]: boolean }, cell: ICell): void {
+  for (let r = cell.row, r2 = r + cell.rowSpan; r < r2; ++r) {
+    for (let c = cell.column, c2 = c + cell.columnSpan; c < c2; ++c) {
+      occupied[r + ',' + c] = true;
+    }
+  }
+}
+
+
+/**
+ * Test whether all of the grid cells covered by a range are free.
+ */
+function isFree(occupied: { [key: string]: boolean }, row: number, column: number, rowSpan: number, columnSpan: number): boolean {
+  for (let r = row, r2 = row + rowSpan; r < r2; ++r) {
+    for (let c = column, c2 = column + columnSpan; c < c2; ++c) {
+      if (occupied[r + ',' + c]) return false;
+    }
+  }
+  return true;
+}
+
+
+/**
+ * Clamp a cell to the given number of rows and columns.
+ *
+ * An infinite count leaves the cell unclamped along that axis.
+ */
+function clampCell(cell: ICell, rowCount: number, colCount: number): ICell {
+  let row = Math.max(0, Math.min(cell.row, rowCount - 1));
+  let column = Math.max(0, Math.min(cell.column, colCount - 1));
+  let rowSpan = Math.min(cell.rowSpan, rowCount - row);
+  let columnSpan = Math.min(cell.columnSpan, colCount - column);
+  return { row, column, rowSpan, columnSpan };
+}
+
+
+/**
+ * Auto place the pending cells into the free cells of a grid.
+ *
+ * The cells are modified in-place, and their spans are clamped to
+ * the track count across the flow direction. The search is bounded
+ * across the flow direction and unbounded along it.
+ */
+function autoPlace(occupied: { [key: string]: boolean }, pending: ICell[], flow: AutoFlow, rowCount: number, colCount: number): void {
+  let byRow = flow === AutoFlow.Row || flow === AutoFlow.RowDense;
+  let dense = flow === AutoFlow.RowDense || flow === AutoFlow.ColumnDense;
+  let minorCount = byRow ? colCount : rowCount;
+  let major = 0;
+  let minor = 0;
+  for (let i = 0, n = pending.length; i < n; ++i) {
+    let cell = pending[i];
+    if (byRow) {
+      cell.columnSpan = Math.min(cell.columnSpan, minorCount);
+    } else {
+      cell.rowSpan = Math.min(cell.rowSpan, minorCount);
+    }
+    let minorSpan = byRow ? cell.columnSpan : cell.rowSpan;
+    if (dense) {
+      major = 0;
+      minor = 0;
+    }
+    while (true) {
+      if (minor + minorSpan > minorCount) {
+        major++;
+        minor = 0;
+        continue;
       }
+      cell.row = byRow ? major : minor;
+      cell.column = byRow ? minor : major;
+      if (isFree(occupied, cell.row, cell.column, cell.rowSpan, cell.columnSpan)) {
+        break;
+      }
+      minor++;
+    }
+    markCell(occupied, cell);
+    minor += minorSpan;
+  }
+}
+
+
+/**
+ * Parse the template areas for a grid panel.
+ *
+ * Returns a mapping of area name to the cells covered by the area.
+ *
+ * An error is thrown if the rows of the template have a different
+ * number of cells, or if a named area is not a filled rectangle.
+ */
+function parseTemplateAreas(template: string[]): { [name: string]: ICell } {
+  // Split the template rows into cell names.
+  let rows = template.map(row => row.trim() ? row.trim().split(/\s+/) : []);
+  for (let i = 0, n = rows.length; i < n; ++i) {
+    if (rows[i].length !== rows[0].length) {
+      let count = rows[0].length;
+      throw new Error(`Template row ${i} has ${rows[i].length} cells, expected ${count}.`);
     }
-    postMessage(this, Panel.MsgLayoutRequest);
   }
 
-  /**
-   * The change handler for a row spec `changed` signal.
-   */
-  private _onRowSpecChanged(sender: Spec, args: IChangedArgs<any>): void {
-    postMessage(this, Panel.MsgLayoutRequest);
+  // Compute the bounding cells of each named area.
+  let areas: { [name: string]: ICell } = Object.create(null);
+  let counts: { [name: string]: number } = Object.create(null);
+  for (let i = 0, n = rows.length; i < n; ++i) {
+    for (let j = 0, m = rows[i].length; j < m; ++j) {
+      let name = rows[i][j];
+      if (/^\.+$/.test(name)) {
+        continue;
+      }
+      let area = areas[name];
+      if (!area) {
+        areas[name] = { row: i, column: j, rowSpan: 1, columnSpan: 1 };
+        counts[name] = 1;
+        continue;
+      }
+      let r2 = Math.max(area.row + area.rowSpan - 1, i);
+      let c2 = Math.max(area.column + area.columnSpan - 1, j);
+      area.column = Math.min(area.column, j);
+      area.rowSpan = r2 - area.row + 1;
+      area.columnSpan = c2 - area.column + 1;
+      counts[name]++;
+    }
   }
 
-  /**
-   * The change handler for a column spec `changed` signal.
-   */
-  private _onColSpecChanged(sender: Spec, args: IChangedArgs<any>): void {
-    postMessage(this, Panel.MsgLayoutRequest);
+  // Ensure each named area fills its bounding rectangle.
+  for (let name in areas) {
+    let area = areas[name];
+    if (counts[name] !== area.rowSpan * area.columnSpan) {
+      throw new Error(`Template area '${name}' is not a filled rectangle.`);
+    }
   }
 
-  private _box: IBoxSizing = null;
-  private _rowStarts: number[] = [];
-  private _colStarts: number[] = [];
-  private _rowSizers: BoxSizer[] = [];
-  private _colSizers: BoxSizer[] = [];
+  return areas;
 }
 
 
 /**
- * An options object used to initialize a spec.
+ * Coerce the template areas for a grid panel.
+ *
+ * This validates the template and returns a frozen shallow copy.
  */
-export
-interface ISpecOptions {
-  /**
-   * The size basis for the spec.
-   */
-  sizeBasis?: number;
-
-  /**
-   * The minimum size for the spec.
-   */
-  minSize?: number;
+function coerceTemplateAreas(value: string[]): string[] {
+  let template = value ? value.slice() : [];
+  parseTemplateAreas(template);
+  return Object.freeze(template);
+}
 
-  /**
-   * The maximum size for the spec.
-   */
-  maxSize?: number;
 
-  /**
-   * The stretch factor for the spec.
-   */
-  stretch?: number;
+/**
+ * The default key function for the grid panel state methods.
+ */
+function widgetId(widget: Widget): string {
+  return widget.id;
 }
 
 
 /**
- * An object used to specify a grid row or column.
+ * Find the last breakpoint which matches the given offset size.
+ *
+ * Returns `null` if no breakpoint matches the size.
  */
-export
-class Spec {
-  /**
-   * A signal emitted when the spec state changes.
-   *
-   * **See also:** [[changed]]
-   */
-  static changedSignal = new Signal<Spec, IChangedArgs<any>>();
-
-  /**
-   * The property descriptor for the size basis.
-   *
-   * This controls the size allocated to the row or column before the
-   * stretch factor, size limits, and surplus/deficit space is taken
-   * into account.
-   *
-   * #### Notes
-   * The default value is `0`.
-   *
-   * **See also:** [[sizeBasis]]
-   */
-  static sizeBasisProperty = new Property<Spec, number>({
-    name: 'sizeBasis',
-    value: 0,
-    notify: Spec.changedSignal,
-  });
+function matchBreakpoint(breakpoints: IBreakpoint[], width: number, height: number): IBreakpoint {
+  let result: IBreakpoint = null;
+  for (let i = 0, n = breakpoints.length; i < n; ++i) {
+    let bp = breakpoints[i];
+    if (width >= (bp.minWidth || 0) && height >= (bp.minHeight || 0)) {
+      result = bp;
+    }
+  }
+  return result;
+}
 
-  /**
-   * The property descriptor for the minimum size.
-   *
-   * The row or column will never be resized less than this size.
-   *
-   * #### Notes
-   * This value is clamped to a lower bound of `0`.
-   *
-   * This takes precedence over `maxSize` when in conflict.
-   *
-   * The default value is `0`.
-   *
-   * **See also:** [[minSize]]
-   */
-  static minSizeProperty = new Property<Spec, number>({
-    name: 'minSize',
-    value: 0,
-    coerce: (owner, value) => Math.max(0, value),
-    notify: Spec.changedSignal,
-  });
 
-  /**
-   * The property descriptor for the maximum size.
-   *
-   * The row or column will never be resized more than this size.
-   *
-   * #### Notes
-   * This value is clamped to a lower bound of `0`.
-   *
-   * The `minSize` takes precedent when in conflict.
-   *
-   * The default value is `Infinity`.
-   *
-   * **See also:** [[maxSize]]
-   */
-  static maxSizeProperty = new Property<Spec, number>({
-    name: 'maxSize',
-    value: Infinity,
-    coerce: (owner, value) => Math.max(0, value),
-    notify: Spec.changedSignal,
-  });
+/**
+ * Compute the new index of a track after another track is moved.
+ */
+function movedIndex(index: number, fromIndex: number, toIndex: number): number {
+  if (index === fromIndex) {
+    return toIndex;
+  }
+  if (fromIndex < index && index <= toIndex) {
+    return index - 1;
+  }
+  if (toIndex <= index && index < fromIndex) {
+    return index + 1;
+  }
+  return index;
+}
 
-  /**
-   * The property descriptor for the stretch factor.
-   *
-   * This controls how much the row or column is resized relative
-   * to its siblings if there is surplus or deficit layout space.
-   *
-   * #### Notes
-   * This value is clamped to an integer with a lower bound of `0`.
-   *
-   * The default value is `1`.
-   *
-   * **See also:** [[stretch]]
-   */
-  static stretchProperty = new Property<Spec, number>({
-    name: 'stretch',
-    value: 1,
-    coerce: (owner, value) => Math.max(0, value | 0),
-    notify: Spec.changedSignal,
-  });
 
-  /**
-   * Construct a new spec.
-   *
-   * @param options - The options for initializing the spec.
-   */
-  constructor(options: ISpecOptions = {}) {
-    if (options.sizeBasis !== void 0) {
-      this.sizeBasis = options.sizeBasis;
-    }
-    if (options.minSize !== void 0) {
-      this.minSize = options.minSize;
-    }
-    if (options.maxSize !== void 0) {
-      this.maxSize = options.maxSize;
+/**
+ * Create a mapping of key to child widget for a grid panel.
+ *
+ * Children with an empty key are ignored. An error is thrown if two
+ * children have the same key.
+ */
+function mapChildren(panel: GridPanel, key: (widget: Widget) => string): { [key: string]: Widget } {
+  let map: { [key: string]: Widget } = Object.create(null);
+  for (let i = 0, n = panel.childCount(); i < n; ++i) {
+    let widget = panel.childAt(i);
+    let k = key(widget);
+    if (!k) {
+      continue;
     }
-    if (options.stretch !== void 0) {
-      this.stretch = options.stretch;
+    if (k in map) {
+      throw new Error(`Duplicate child key: '${k}'.`);
     }
+    map[k] = widget;
   }
+  return map;
+}
 
-  /**
-   * A signal emitted when the spec state changes.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[changedSignal]].
-   */
-  get changed(): ISignal<Spec, IChangedArgs<any>> {
-    return Spec.changedSignal.bind(this);
-  }
-
-  /**
-   * Get the size basis for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[sizeBasisProperty]].
-   */
-  get sizeBasis(): number {
-    return Spec.sizeBasisProperty.get(this);
-  }
 
-  /**
-   * Set the size basis for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[sizeBasisProperty]].
-   */
-  set sizeBasis(value: number) {
-    Spec.sizeBasisProperty.set(this, value);
+/**
+ * Validate the saved placement of a child along a grid axis.
+ *
+ * An error is thrown if the placement is not a valid integer range
+ * which fits within the given track count. A track count of zero
+ * only accepts the default placement.
+ */
+function validatePlacement(key: string, axis: string, index: number, span: number, count: number): void {
+  let valid = (
+    index === (index | 0) && span === (span | 0) &&
+    index >= 0 && span >= 1 && index + span <= Math.max(1, count)
+  );
+  if (!valid) {
+    throw new Error(`Invalid ${axis} placement for child '${key}'.`);
   }
+}
 
-  /**
-   * Get the min size for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[minSizeProperty]].
-   */
-  get minSize(): number {
-    return Spec.minSizeProperty.get(this);
-  }
 
-  /**
-   * Set the min size for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[minSizeProperty]].
-   */
-  set minSize(value: number) {
-    Spec.minSizeProperty.set(this, value);
+/**
+ * Create the saved state options for a spec.
+ *
+ * An infinite max size is omitted so that the state is valid JSON.
+ */
+function specState(spec: Spec): ISpecOptions {
+  let options: ISpecOptions = {
+    sizeBasis: spec.sizeBasis,
+    minSize: spec.minSize,
+    stretch: spec.stretch,
+    sizing: spec.sizing,
+  };
+  if (spec.maxSize !== Infinity) {
+    options.maxSize = spec.maxSize;
   }
-
-  /**
-   * Get the max size for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[maxSizeProperty]].
-   */
-  get maxSize(): number {
-    return Spec.maxSizeProperty.get(this);
+  if (spec.collapsed) {
+    options.collapsed = true;
   }
+  return options;
+}
 
-  /**
-   * Set the max size for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[maxSizeProperty]].
-   */
-  set maxSize(value: number) {
-    Spec.maxSizeProperty.set(this, value);
-  }
 
-  /**
-   * Get the stretch factor for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[stretchProperty]].
-   */
-  get stretch(): number {
-    return Spec.stretchProperty.get(this);
+/**
+ * Sync the number of resize handles in a node with the given count.
+ */
+function syncHandles(node: HTMLElement, handles: HTMLElement[], count: number, className: string): void {
+  while (handles.length < count) {
+    let handle = document.createElement('div');
+    handle.className = HANDLE_CLASS + ' ' + className;
+    node.appendChild(handle);
+    handles.push(handle);
   }
-
-  /**
-   * Set the stretch factor for the spec.
-   *
-   * #### Notes
-   * This is a pure delegate to the [[stretchProperty]].
-   */
-  set stretch(value: number) {
-    Spec.stretchProperty.set(this, value);
+  while (handles.length > count) {
+    node.removeChild(handles.pop());
   }
 }
 
 
 /**
- * An object which represents an offset rect.
+ * Set the offset geometry for an absolutely positioned node.
+ *
+ * This is used for the resize handles, the drop indicator and the
+ * nodes of the debug overlay.
  */
-interface IRect {
-  /**
-   * The offset top edge, in pixels.
-   */
-  top: number;
-
-  /**
-   * The offset left edge, in pixels.
-   */
-  left: number;
+function setNodeGeometry(node: HTMLElement, left: number, top: number, width: number, height: number): void {
+  let style = node.style;
+  style.top = top + 'px';
+  style.left = left + 'px';
+  style.width = width + 'px';
+  style.height = height + 'px';
+}
 
-  /**
-   * The offset width, in pixels.
-   */
-  width: number;
 
-  /**
-   * The offset height, in pixels.
-   */
-  height: number;
+/**
+ * Update the positioned node at an index of a debug overlay.
+ *
+ * The existing node at the index is reused, and a new node is only
+ * created when the overlay has no node at the index.
+ */
+function setDebugNode(overlay: HTMLElement, index: number, className: string, rect: IRect, label: string): void {
+  let node = overlay.children[index] as HTMLElement;
+  if (!node) {
+    node = document.createElement('div');
+    overlay.appendChild(node);
+  }
+  node.className = className;
+  node.textContent = label;
+  setNodeGeometry(node, rect.left, rect.top, rect.width, rect.height);
 }
 
 
 /**
- * A private attached property which stores a widget offset rect.
+ * Create the debug overlay label for a track.
+ *
+ * The label shows the min, basis, max and actual size of the track.
  */
-const rectProperty = new Property<Widget, IRect>({
-  name: 'rect',
-  create: createRect,
-});
+function trackLabel(name: string, index: number, spec: Spec, sizer: BoxSizer, size: number, collapsed: boolean): string {
+  let basis: string;
+  switch (spec.sizing) {
+  case Sizing.Auto:
+    basis = 'auto';
+    break;
+  case Sizing.Percent:
+    basis = formatSize(spec.sizeBasis) + '%';
+    break;
+  default:
+    basis = formatSize(spec.sizeBasis);
+    break;
+  }
+  let label = (
+    name + ' ' + index + ': ' + formatSize(sizer.minSize) + ' / ' +
+    basis + ' / ' + formatSize(sizer.maxSize) + ' = ' + formatSize(size)
+  );
+  return collapsed ? label + ' (collapsed)' : label;
+}
 
 
 /**
- * A private attached property which stores a widget's size limits.
+ * Format a size in pixels for a debug overlay label.
  */
-const limitsProperty = new Property<Widget, ISizeLimits>({
-  name: 'limits',
-  create: owner => sizeLimits(owner.node),
-});
+function formatSize(size: number): string {
+  return size === Infinity ? '\u221E' : String(Math.round(size * 10) / 10);
+}
 
 
 /**
- * Create a new offset rect filled with NaNs.
+ * Compute the spacing gutters between the tracks along an axis.
+ *
+ * A gutter lies between each pair of adjacent expanded tracks. The
+ * tracks may be in either ascending or descending order.
  */
-function createRect(): IRect {
-  return { top: NaN, left: NaN, width: NaN, height: NaN };
+function trackGutters(collapsed: boolean[], offsets: number[], sizes: number[]): IGutter[] {
+  let gutters: IGutter[] = [];
+  let prev = -1;
+  for (let i = 0, n = sizes.length; i < n; ++i) {
+    if (collapsed[i]) continue;
+    if (prev !== -1) {
+      let first = offsets[prev] < offsets[i] ? prev : i;
+      let second = first === prev ? i : prev;
+      let start = offsets[first] + sizes[first];
+      gutters.push({ offset: start, size: Math.max(0, offsets[second] - start) });
+    }
+    prev = i;
+  }
+  return gutters;
 }
 
 
 /**
- * Get the offset rect for a widget.
+ * Find the index of the track which contains an offset position.
+ *
+ * Returns `-1` if the position is not within a track.
  */
-function getRect(widget: Widget): IRect {
-  return rectProperty.get(widget);
+function trackAt(starts: number[], sizes: number[], pos: number): number {
+  for (let i = 0, n = sizes.length; i < n; ++i) {
+    if (pos >= starts[i] && pos < starts[i] + sizes[i]) {
+      return i;
+    }
+  }
+  return -1;
 }
 
 
 /**
- * Get the cached size limits for a widget.
+ * Add a widget and the widgets it overlaps to an array of overlaps.
+ *
+ * The widget is not added if it does not overlap another widget. A
+ * widget which is already in the array is not added again.
  */
-function getLimits(widget: Widget): ISizeLimits {
-  return limitsProperty.get(widget);
+function addOverlaps(overlaps: Widget[], others: Widget[], widget: Widget): void {
+  if (others.length === 0) {
+    return;
+  }
+  for (let i = 0, n = others.length; i < n; ++i) {
+    if (overlaps.indexOf(others[i]) === -1) overlaps.push(others[i]);
+  }
+  if (overlaps.indexOf(widget) === -1) overlaps.push(widget);
 }
 
 
 /**
- * Set the cached size limits for a widget.
+ * Find the distinct widgets which own the grid cells of a cell.
  */
-function setLimits(widget: Widget, value: ISizeLimits): void {
-  return limitsProperty.set(widget, value);
+function findOwners(owners: { [key: string]: Widget }, cell: ICell): Widget[] {
+  let result: Widget[] = [];
+  for (let r = cell.row, r2 = r + cell.rowSpan; r < r2; ++r) {
+    for (let c = cell.column, c2 = c + cell.columnSpan; c < c2; ++c) {
+      let owner = owners[r + ',' + c];
+      if (owner && result.indexOf(owner) === -1) result.push(owner);
+    }
+  }
+  return result;
 }
 
 
 /**
- * Set the offset geometry for the given widget.
- *
- * A resize message will be dispatched to the widget if appropriate.
+ * Claim the unowned grid cells of a cell for a widget.
  */
-function setGeometry(widget: Widget, left: number, top: number, width: number, height: number): void {
-  let resized = false;
-  let rect = getRect(widget);
-  let style = widget.node.style;
-  if (rect.top !== top) {
-    rect.top = top;
-    style.top = top + 'px';
-  }
-  if (rect.left !== left) {
-    rect.left = left;
-    style.left = left + 'px';
-  }
-  if (rect.width !== width) {
-    resized = true;
-    rect.width = width;
-    style.width = width + 'px';
-  }
-  if (rect.height !== height) {
-    resized = true;
-    rect.height = height;
-    style.height = height + 'px';
-  }
-  if (resized) {
-    sendMessage(widget, new ResizeMessage(width, height));
+function claimCells(owners: { [key: string]: Widget }, cell: ICell, widget: Widget): void {
+  for (let r = cell.row, r2 = r + cell.rowSpan; r < r2; ++r) {
+    for (let c = cell.column, c2 = c + cell.columnSpan; c < c2; ++c) {
+      let key = r + ',' + c;
+      if (!owners[key]) owners[key] = widget;
+    }
   }
 }
 
 
 /**
- * Reset the inline geometry and rect cache for the given widget
+ * Test whether a cell range contains the given cell.
  */
-function resetGeometry(widget: Widget): void {
-  let rect = getRect(widget);
-  let style = widget.node.style;
-  rect.top = NaN;
-  rect.left = NaN;
-  rect.width = NaN;
-  rect.height = NaN;
-  style.top = '';
-  style.left = '';
-  style.width = '';
-  style.height = '';
+function containsCell(cell: ICell, row: number, column: number): boolean {
+  return (
+    row >= cell.row && row < cell.row + cell.rowSpan &&
+    column >= cell.column && column < cell.column + cell.columnSpan
+  );
+}
+
+
+/**
+ * Find the index of the track nearest to an offset position.
+ *
+ * The track starts may be in either ascending or descending order.
+ */
+function nearestTrack(starts: number[], sizes: number[], pos: number): number {
+  let result = 0;
+  let best = Infinity;
+  for (let i = 0, n = sizes.length; i < n; ++i) {
+    let start = starts[i];
+    let end = start + sizes[i];
+    let dist = pos < start ? start - pos : pos >= end ? pos - end : -1;
+    if (dist < best) {
+      best = dist;
+      result = i;
+    }
+  }
+  return result;
 }
 
 
 /**
- * The change handler for the attached child properties.
+ * Compute the number of rows spanned by the cells of a grid panel.
  */
-function onChildPropertyChanged(child: Widget): void {
-  if (child.parent instanceof GridPanel) {
-    postMessage(child.parent, Widget.MsgUpdateRequest);
+function rowExtent(panel: GridPanel): number {
+  let extent = 0;
+  for (let i = 0, n = panel.childCount(); i < n; ++i) {
+    let cell = getCell(panel.childAt(i));
+    extent = Math.max(extent, cell.row + cell.rowSpan);
   }
+  return extent;
 }
 
 
 /**
- * Create an array filled with zeros.
+ * Compute the number of columns spanned by the cells of a grid panel.
  */
-function zeros(n: number): number[] {
-  let arr = new Array<number>(n);
-  for (let i = 0; i < n; ++i) arr[i] = 0;
-  return arr;
+function columnExtent(panel: GridPanel): number {
+  let extent = 0;
+  for (let i = 0, n = panel.childCount(); i < n; ++i) {
+    let cell = getCell(panel.childAt(i));
+    extent = Math.max(extent, cell.column + cell.columnSpan);
+  }
+  return extent;
 }
 
 
 /**
- * Create and initialize a box sizer from a spec.
+ * Create the track specs for an axis of a grid panel.
+ *
+ * The explicit specs are extended with the implicit spec, if given,
+ * until they cover the required track count.
  */
-function makeSizer(spec: Spec): BoxSizer {
-  let sizer = new BoxSizer();
-  sizer.sizeHint = spec.sizeBasis;
-  sizer.minSize = spec.minSize;
-  sizer.maxSize = spec.maxSize;
-  sizer.stretch = spec.stretch;
-  sizer.maxSize = Math.max(sizer.minSize, sizer.maxSize);
-  return sizer;
+function implicitSpecs(specs: Spec[], auto: Spec, count: number): Spec[] {
+  let result = specs.slice();
+  while (auto && result.length < count) {
+    result.push(auto);
+  }
+  return result;
 }
@@ -0,0 +1,1219 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import {
+  BoxSizer, boxCalc
+} from 'phosphor-boxengine';
+
+import {
+  IChangedArgs, Property
+} from 'phosphor-properties';
+
+import {
+  ISignal, Signal
+} from 'phosphor-signaling';
+
+
+/**
+ * An enum of the supported child alignments within a grid cell.
+ *
+ * #### Notes
+ * The grid panel has no way to measure the natural size of a child,
+ * so a child is always sized to fill as much of its cell as its size
+ * limits allow. The alignment only positions the child within the
+ * slack which remains when its max size is smaller than the cell.
+ *
+ * As a result, `Start` and `Stretch` place a child identically. To
+ * keep a child from filling its cell, limit its size with the CSS
+ * `max-width` or `max-height` of its node.
+ */
+export
+enum Alignment {
+  /**
+   * The child is aligned to the start edge of its cell.
+   *
+   * This is a synonym of `Stretch`, see the notes above.
+   */
+  Start,
+
+  /**
+   * The child is centered within its cell.
+   */
+  Center,
+
+  /**
+   * The child is aligned to the end edge of its cell.
+   */
+  End,
+
+  /**
+   * The child is stretched to fill its cell.
+   *
+   * A child which cannot fill its cell is aligned to the start edge.
+   */
+  Stretch,
+}
+
+
+/**
+ * An object which describes the grid cells occupied by a child.
+ */
+export
+interface ICell {
+  /**
+   * The index of the first row occupied by the child.
+   */
+  row: number;
+
+  /**
+   * The index of the first column occupied by the child.
+   */
+  column: number;
+
+  /**
+   * The number of rows occupied by the child.
+   */
+  rowSpan: number;
+
+  /**
+   * The number of columns occupied by the child.
+   */
+  columnSpan: number;
+}
+
+
+/**
+ * An object which represents an offset rect.
+ *
+ * The rect is relative to the offset parent of the child widgets,
+ * which is the grid panel node.
+ */
+export
+interface IRect {
+  /**
+   * The offset top edge, in pixels.
+   */
+  top: number;
+
+  /**
+   * The offset left edge, in pixels.
+   */
+  left: number;
+
+  /**
+   * The offset width, in pixels.
+   */
+  width: number;
+
+  /**
+   * The offset height, in pixels.
+   */
+  height: number;
+}
+
+
+/**
+ * An object which specifies the spacing for a grid layout.
+ */
+export
+interface IGridSpacing {
+  /**
+   * The spacing between the rows, in pixels.
+   */
+  rowSpacing: number;
+
+  /**
+   * The spacing between the columns, in pixels.
+   */
+  columnSpacing: number;
+}
+
+
+/**
+ * An object which describes an item to arrange in a grid layout.
+ *
+ * #### Notes
+ * The optional fields default to the defaults of the corresponding
+ * attached properties and size limits of a grid panel child.
+ */
+export
+interface IGridItem extends ICell {
+  /**
+   * The minimum width of the item. The default is `0`.
+   */
+  minWidth?: number;
+
+  /**
+   * The minimum height of the item. The default is `0`.
+   */
+  minHeight?: number;
+
+  /**
+   * The maximum width of the item. The default is `Infinity`.
+   */
+  maxWidth?: number;
+
+  /**
+   * The maximum height of the item. The default is `Infinity`.
+   */
+  maxHeight?: number;
+
+  /**
+   * The top margin of the item. The default is `0`.
+   */
+  marginTop?: number;
+
+  /**
+   * The right margin of the item. The default is `0`.
+   */
+  marginRight?: number;
+
+  /**
+   * The bottom margin of the item. The default is `0`.
+   */
+  marginBottom?: number;
+
+  /**
+   * The left margin of the item. The default is `0`.
+   */
+  marginLeft?: number;
+
+  /**
+   * The horizontal alignment of the item. The default is `Stretch`.
+   */
+  horizontalAlignment?: Alignment;
+
+  /**
+   * The vertical alignment of the item. The default is `Stretch`.
+   */
+  verticalAlignment?: Alignment;
+
+  /**
+   * Whether the item is hidden. The default is `false`.
+   */
+  hidden?: boolean;
+}
+
+
+/**
+ * An options object for computing a grid layout.
+ */
+export
+interface IGridLayoutOptions {
+  /**
+   * Whether the columns are laid out right-to-left.
+   *
+   * The default is `false`.
+   */
+  rightToLeft?: boolean;
+
+  /**
+   * Whether the tracks which contain only hidden items are collapsed.
+   *
+   * The default is `false`.
+   */
+  collapseHidden?: boolean;
+}
+
+
+/**
+ * An object which holds the result of a grid layout.
+ *
+ * #### Notes
+ * The track arrays are empty if the items are stacked because there
+ * are no rows or no columns.
+ */
+export
+interface IGridLayout {
+  /**
+   * The offset top edge of each row, in pixels.
+   */
+  rowOffsets: number[];
+
+  /**
+   * The height of each row, in pixels.
+   */
+  rowSizes: number[];
+
+  /**
+   * The offset left edge of each column, in pixels.
+   */
+  columnOffsets: number[];
+
+  /**
+   * The width of each column, in pixels.
+   */
+  columnSizes: number[];
+
+  /**
+   * The final rect of each item, in item order.
+   */
+  rects: IRect[];
+}
+
+
+/**
+ * An enum of the supported spec sizing modes.
+ */
+export
+enum Sizing {
+  /**
+   * The row or column is sized using the spec size basis.
+   */
+  Fixed,
+
+  /**
+   * The row or column grows to fit the content of its children.
+   */
+  Auto,
+
+  /**
+   * The size basis is a percentage of the available layout space.
+   */
+  Percent,
+}
+
+
+/**
+ * An options object used to initialize a spec.
+ */
+export
+interface ISpecOptions {
+  /**
+   * The size basis for the spec.
+   */
+  sizeBasis?: number;
+
+  /**
+   * The minimum size for the spec.
+   */
+  minSize?: number;
+
+  /**
+   * The maximum size for the spec.
+   */
+  maxSize?: number;
+
+  /**
+   * The stretch factor for the spec.
+   */
+  stretch?: number;
+
+  /**
+   * The sizing mode for the spec.
+   */
+  sizing?: Sizing;
+
+  /**
+   * Whether the spec is collapsed.
+   */
+  collapsed?: boolean;
+}
+
+
+/**
+ * An object used to specify a grid row or column.
+ */
+export
+class Spec {
+  /**
+   * A signal emitted when the spec state changes.
+   *
+   * **See also:** [[changed]]
+   */
+  static changedSignal = new Signal<Spec, IChangedArgs<any>>();
+
+  /**
+   * The property descriptor for the size basis.
+   *
+   * This controls the size allocated to the row or column before the
+   * stretch factor, size limits, and surplus/deficit space is taken
+   * into account.
+   *
+   * #### Notes
+   * When the sizing mode is `Sizing.Percent`, this value is treated
+   * as a percentage of the space available to the tracks along the
+   * axis, after the padding, border, and spacing are removed.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[sizeBasis]]
+   */
+  static sizeBasisProperty = new Property<Spec, number>({
+    name: 'sizeBasis',
+    value: 0,
+    notify: Spec.changedSignal,
+  });
+
+  /**
+   * The property descriptor for the minimum size.
+   *
+   * The row or column will never be resized less than this size.
+   *
+   * #### Notes
+   * This value is clamped to a lower bound of `0`.
+   *
+   * The effective minimum size of the row or column is raised by the
+   * grid panel as needed to fit the minimum size of its children, up
+   * to the `maxSize` of the spec.
+   *
+   * This takes precedence over `maxSize` when in conflict.
+   *
+   * The default value is `0`.
+   *
+   * **See also:** [[minSize]]
+   */
+  static minSizeProperty = new Property<Spec, number>({
+    name: 'minSize',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, value),
+    notify: Spec.changedSignal,
+  });
+
+  /**
+   * The property descriptor for the maximum size.
+   *
+   * The row or column will never be resized more than this size.
+   *
+   * #### Notes
+   * This value is clamped to a lower bound of `0`.
+   *
+   * The `minSize` takes precedent when in conflict. The max size is
+   * never raised to fit the children, so a child whose minimum size
+   * exceeds the max size of its tracks overflows them.
+   *
+   * The default value is `Infinity`.
+   *
+   * **See also:** [[maxSize]]
+   */
+  static maxSizeProperty = new Property<Spec, number>({
+    name: 'maxSize',
+    value: Infinity,
+    coerce: (owner, value) => Math.max(0, value),
+    notify: Spec.changedSignal,
+  });
+
+  /**
+   * The property descriptor for the stretch factor.
+   *
+   * This controls how much the row or column is resized relative
+   * to its siblings if there is surplus or deficit layout space.
+   *
+   * #### Notes
+   * This value is clamped to a lower bound of `0`. Fractional values
+   * are allowed, so a set of stretch factors can be used to divide
+   * the free space into fractions like CSS grid `fr` units.
+   *
+   * The default value is `1`.
+   *
+   * **See also:** [[stretch]]
+   */
+  static stretchProperty = new Property<Spec, number>({
+    name: 'stretch',
+    value: 1,
+    coerce: (owner, value) => Math.max(0, value),
+    notify: Spec.changedSignal,
+  });
+
+  /**
+   * The property descriptor for the sizing mode.
+   *
+   * This controls whether the row or column is sized from its size
+   * basis, whether it grows to fit its content, or whether its size
+   * basis is a percentage of the available space.
+   *
+   * #### Notes
+   * An auto sized row or column uses the minimum sizes of the children
+   * which it contains to raise its own minimum size and size basis. A
+   * child which spans multiple rows or columns distributes its excess
+   * requirement evenly among the auto sized tracks which it spans.
+   *
+   * The `maxSize` of the spec is respected when growing. A child whose
+   * minimum size cannot fit its tracks overflows them.
+   *
+   * A percent sized row or column resolves its size basis against the
+   * content box of the panel each time the layout is computed. A row
+   * or column resized with a handle retains its percentage basis.
+   *
+   * The default value is `Sizing.Fixed`.
+   *
+   * **See also:** [[sizing]]
+   */
+  static sizingProperty = new Property<Spec, Sizing>({
+    name: 'sizing',
+    value: Sizing.Fixed,
+    notify: Spec.changedSignal,
+  });
+
+  /**
+   * The property descriptor for the collapsed flag.
+   *
+   * This controls whether the row or column is temporarily collapsed
+   * to a size of zero.
+   *
+   * #### Notes
+   * A collapsed row or column has no size, and the spacing which would
+   * separate it from its neighbors is removed. The other properties of
+   * the spec are retained for when it is expanded.
+   *
+   * A child whose cells are all within collapsed rows or columns is
+   * hidden by the `p-mod-collapsed` class, and does not contribute to
+   * the content size of the panel.
+   *
+   * The default value is `false`.
+   *
+   * **See also:** [[collapsed]]
+   */
+  static collapsedProperty = new Property<Spec, boolean>({
+    name: 'collapsed',
+    value: false,
+    notify: Spec.changedSignal,
+  });
+
+  /**
+   * Construct a new spec.
+   *
+   * @param options - The options for initializing the spec.
+   */
+  constructor(options: ISpecOptions = {}) {
+    if (options.sizeBasis !== void 0) {
+      this.sizeBasis = options.sizeBasis;
+    }
+    if (options.minSize !== void 0) {
+      this.minSize = options.minSize;
+    }
+    if (options.maxSize !== void 0) {
+      this.maxSize = options.maxSize;
+    }
+    if (options.stretch !== void 0) {
+      this.stretch = options.stretch;
+    }
+    if (options.sizing !== void 0) {
+      this.sizing = options.sizing;
+    }
+    if (options.collapsed !== void 0) {
+      this.collapsed = options.collapsed;
+    }
+  }
+
+  /**
+   * A signal emitted when the spec state changes.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[changedSignal]].
+   */
+  get changed(): ISignal<Spec, IChangedArgs<any>> {
+    return Spec.changedSignal.bind(this);
+  }
+
+  /**
+   * Get the size basis for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[sizeBasisProperty]].
+   */
+  get sizeBasis(): number {
+    return Spec.sizeBasisProperty.get(this);
+  }
+
+  /**
+   * Set the size basis for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[sizeBasisProperty]].
+   */
+  set sizeBasis(value: number) {
+    Spec.sizeBasisProperty.set(this, value);
+  }
+
+  /**
+   * Get the min size for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[minSizeProperty]].
+   */
+  get minSize(): number {
+    return Spec.minSizeProperty.get(this);
+  }
+
+  /**
+   * Set the min size for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[minSizeProperty]].
+   */
+  set minSize(value: number) {
+    Spec.minSizeProperty.set(this, value);
+  }
+
+  /**
+   * Get the max size for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[maxSizeProperty]].
+   */
+  get maxSize(): number {
+    return Spec.maxSizeProperty.get(this);
+  }
+
+  /**
+   * Set the max size for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[maxSizeProperty]].
+   */
+  set maxSize(value: number) {
+    Spec.maxSizeProperty.set(this, value);
+  }
+
+  /**
+   * Get the stretch factor for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[stretchProperty]].
+   */
+  get stretch(): number {
+    return Spec.stretchProperty.get(this);
+  }
+
+  /**
+   * Set the stretch factor for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[stretchProperty]].
+   */
+  set stretch(value: number) {
+    Spec.stretchProperty.set(this, value);
+  }
+
+  /**
+   * Get the sizing mode for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[sizingProperty]].
+   */
+  get sizing(): Sizing {
+    return Spec.sizingProperty.get(this);
+  }
+
+  /**
+   * Set the sizing mode for the spec.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[sizingProperty]].
+   */
+  set sizing(value: Sizing) {
+    Spec.sizingProperty.set(this, value);
+  }
+
+  /**
+   * Get whether the spec is collapsed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[collapsedProperty]].
+   */
+  get collapsed(): boolean {
+    return Spec.collapsedProperty.get(this);
+  }
+
+  /**
+   * Set whether the spec is collapsed.
+   *
+   * #### Notes
+   * This is a pure delegate to the [[collapsedProperty]].
+   */
+  set collapsed(value: boolean) {
+    Spec.collapsedProperty.set(this, value);
+  }
+}
+
+
+/**
+ * Compute the layout of items arranged in a grid.
+ *
+ * @param rowSpecs - The specs for the rows of the grid.
+ *
+ * @param colSpecs - The specs for the columns of the grid.
+ *
+ * @param spacing - The spacing between the rows and columns.
+ *
+ * @param items - The items to arrange in the grid.
+ *
+ * @param width - The width of the layout area, in pixels.
+ *
+ * @param height - The height of the layout area, in pixels.
+ *
+ * @param options - The options for the layout.
+ *
+ * @returns The track geometry and the rect of each item, relative to
+ *   the top left corner of the layout area.
+ *
+ * #### Notes
+ * This is the layout algorithm used by [[GridPanel]]. It does not
+ * access the DOM, so the layout of a set of items can be computed
+ * without creating a panel.
+ *
+ * This module does not depend on the DOM or the panel stylesheet,
+ * so it can be loaded from `phosphor-gridpanel/lib/layout` in an
+ * environment without a DOM, such as Node.
+ *
+ * The items are clamped to the given tracks, so the specs should
+ * include any implicit tracks. If there are no rows or no columns,
+ * the items are stacked and each fills the layout area.
+ */
+export
+function computeGridLayout(rowSpecs: Spec[], colSpecs: Spec[], spacing: IGridSpacing, items: IGridItem[], width: number, height: number, options: IGridLayoutOptions = {}): IGridLayout {
+  items = items.map(normalizeItem);
+  let fit = fitTracks(rowSpecs, colSpecs, spacing, items, !!options.collapseHidden);
+  return arrangeTracks(rowSpecs, colSpecs, spacing, items, fit, width, height, !!options.rightToLeft);
+}
+
+
+/**
+ * Arrange the items of a grid using the fitted track sizers.
+ *
+ * The items must be normalized, and the sizers are updated in-place
+ * with the computed track sizes. This allows the panel to reuse the
+ * sizers which were fitted when its size constraints were computed.
+ */
+export
+function arrangeTracks(rowSpecs: Spec[], colSpecs: Spec[], spacing: IGridSpacing, items: IGridItem[], fit: ITrackFit, width: number, height: number, rtl: boolean): IGridLayout {
+  // If there are no rows or columns, just stack the items.
+  if (fit.rowSizers.length === 0 || fit.columnSizers.length === 0) {
+    let rects = items.map(item => itemRect(item, 0, 0, width, height, rtl));
+    return { rowOffsets: [], rowSizes: [], columnOffsets: [], columnSizes: [], rects };
+  }
+
+  // Compute the row sizes and offsets.
+  let rowSpace = height - spacing.rowSpacing * gutterCount(fit.rowCollapsed);
+  resolvePercents(rowSpecs, fit.rowSizers, rowSpace);
+  boxCalc(fit.rowSizers, rowSpace);
+  let rowSizes = fit.rowSizers.map(sizer => sizer.size);
+  let rowOffsets = trackOffsets(fit.rowCollapsed, rowSizes, spacing.rowSpacing);
+
+  // Compute the column sizes and offsets, mirrored for right-to-left.
+  let colSpace = width - spacing.columnSpacing * gutterCount(fit.columnCollapsed);
+  resolvePercents(colSpecs, fit.columnSizers, colSpace);
+  boxCalc(fit.columnSizers, colSpace);
+  let colSizes = fit.columnSizers.map(sizer => sizer.size);
+  let colOffsets = trackOffsets(fit.columnCollapsed, colSizes, spacing.columnSpacing);
+  for (let i = 0, n = colOffsets.length; rtl && i < n; ++i) {
+    colOffsets[i] = width - colOffsets[i] - colSizes[i];
+  }
+
+  // Compute the rect of each item within its cells.
+  let rows = { offsets: rowOffsets, sizes: rowSizes, collapsed: fit.rowCollapsed };
+  let cols = { offsets: colOffsets, sizes: colSizes, collapsed: fit.columnCollapsed };
+  let rects = items.map(item => {
+    let r = cellsRect(rows, cols, item);
+    return itemRect(item, r.left, r.top, r.width, r.height, rtl);
+  });
+
+  // Return the computed layout.
+  return {
+    rowOffsets, rowSizes, columnOffsets: colOffsets, columnSizes: colSizes, rects
+  };
+}
+
+
+/**
+ * An object which describes the tracks spanned by a child.
+ */
+interface ITrackSpan {
+  /**
+   * The index of the first track spanned by the child.
+   */
+  first: number;
+
+  /**
+   * The index of the last track spanned by the child.
+   */
+  last: number;
+
+  /**
+   * The minimum size of the child along the track axis.
+   */
+  minSize: number;
+}
+
+
+/**
+ * An object which holds the fitted sizers for a grid layout.
+ */
+export
+interface ITrackFit {
+  /**
+   * Whether each row is collapsed.
+   */
+  rowCollapsed: boolean[];
+
+  /**
+   * Whether each column is collapsed.
+   */
+  columnCollapsed: boolean[];
+
+  /**
+   * The box sizers for the rows.
+   */
+  rowSizers: BoxSizer[];
+
+  /**
+   * The box sizers for the columns.
+   */
+  columnSizers: BoxSizer[];
+}
+
+
+/**
+ * An object which holds the computed geometry of the tracks on an axis.
+ */
+export
+interface ITrackGeometry {
+  /**
+   * The offset of each track, in pixels.
+   */
+  offsets: number[];
+
+  /**
+   * The size of each track, in pixels.
+   */
+  sizes: number[];
+
+  /**
+   * Whether each track is collapsed.
+   */
+  collapsed: boolean[];
+}
+
+
+/**
+ * Compute the offset rect of an item within the given cell rect.
+ *
+ * The margins of the item are removed from the cell rect, and the
+ * item is clamped to its size limits and aligned within the rest.
+ * A stretched item is aligned like a start aligned item.
+ *
+ * When `rtl` is true, the horizontal start and end alignments are
+ * swapped, and an item which overflows the cell is anchored to the
+ * right edge of the cell.
+ */
+function itemRect(item: IGridItem, x: number, y: number, width: number, height: number, rtl: boolean): IRect {
+  x += item.marginLeft;
+  y += item.marginTop;
+  width = Math.max(0, width - horizontalMargins(item));
+  height = Math.max(0, height - verticalMargins(item));
+  let w = Math.max(item.minWidth, Math.min(width, item.maxWidth));
+  let h = Math.max(item.minHeight, Math.min(height, item.maxHeight));
+  let hAlign = item.horizontalAlignment;
+  if (hAlign === Alignment.Stretch) {
+    hAlign = Alignment.Start;
+  }
+  if (rtl && hAlign === Alignment.Start) {
+    hAlign = Alignment.End;
+  } else if (rtl && hAlign === Alignment.End) {
+    hAlign = Alignment.Start;
+  }
+  let slack = width - w;
+  x += rtl && slack < 0 ? slack : alignOffset(hAlign, slack);
+  y += alignOffset(item.verticalAlignment, height - h);
+  return { top: y, left: x, width: w, height: h };
+}
+
+
+/**
+ * Get the sum of the left and right cell margins of an item.
+ */
+export
+function horizontalMargins(item: IGridItem): number {
+  return item.marginLeft + item.marginRight;
+}
+
+
+/**
+ * Get the sum of the top and bottom cell margins of an item.
+ */
+export
+function verticalMargins(item: IGridItem): number {
+  return item.marginTop + item.marginBottom;
+}
+
+
+/**
+ * Create a copy of a layout item with the defaults applied.
+ */
+function normalizeItem(item: IGridItem): IGridItem {
+  return {
+    row: Math.max(0, item.row | 0),
+    column: Math.max(0, item.column | 0),
+    rowSpan: Math.max(1, item.rowSpan | 0),
+    columnSpan: Math.max(1, item.columnSpan | 0),
+    minWidth: item.minWidth || 0,
+    minHeight: item.minHeight || 0,
+    maxWidth: item.maxWidth === void 0 ? Infinity : item.maxWidth,
+    maxHeight: item.maxHeight === void 0 ? Infinity : item.maxHeight,
+    marginTop: item.marginTop || 0,
+    marginRight: item.marginRight || 0,
+    marginBottom: item.marginBottom || 0,
+    marginLeft: item.marginLeft || 0,
+    horizontalAlignment: valueOr(item.horizontalAlignment, Alignment.Stretch),
+    verticalAlignment: valueOr(item.verticalAlignment, Alignment.Stretch),
+    hidden: !!item.hidden,
+  };
+}
+
+
+/**
+ * Get a value, or a default if the value is undefined.
+ */
+function valueOr<T>(value: T, other: T): T {
+  return value === void 0 ? other : value;
+}
+
+
+/**
+ * Compute the offset of a widget within its cell for an alignment.
+ *
+ * The slack is the cell size minus the size of the widget. A negative
+ * slack means the widget overflows its cell and is not offset.
+ */
+function alignOffset(alignment: Alignment, slack: number): number {
+  if (slack <= 0) {
+    return 0;
+  }
+  switch (alignment) {
+  case Alignment.Center:
+    return slack / 2;
+  case Alignment.End:
+    return slack;
+  }
+  return 0;
+}
+
+
+/**
+ * Create and initialize a box sizer from a spec.
+ */
+function makeSizer(spec: Spec): BoxSizer {
+  let sizer = new BoxSizer();
+  sizer.sizeHint = spec.sizeBasis;
+  sizer.minSize = spec.minSize;
+  sizer.maxSize = spec.maxSize;
+  sizer.stretch = spec.stretch;
+  sizer.maxSize = Math.max(sizer.minSize, sizer.maxSize);
+  return sizer;
+}
+
+
+/**
+ * Fix the size of the sizers for the collapsed tracks to zero.
+ */
+function collapseSizers(sizers: BoxSizer[], collapsed: boolean[]): void {
+  for (let i = 0, n = sizers.length; i < n; ++i) {
+    if (!collapsed[i]) {
+      continue;
+    }
+    sizers[i].sizeHint = 0;
+    sizers[i].minSize = 0;
+    sizers[i].maxSize = 0;
+    sizers[i].stretch = 0;
+  }
+}
+
+
+/**
+ * Collapse the tracks which are covered only by hidden children.
+ *
+ * A track which is not covered by any child is left unchanged.
+ */
+function collapseTracks(collapsed: boolean[], hidden: ITrackSpan[], shown: ITrackSpan[]): void {
+  let covered = collapsed.map(() => false);
+  for (let i = 0, n = shown.length; i < n; ++i) {
+    for (let j = shown[i].first; j <= shown[i].last; ++j) {
+      covered[j] = true;
+    }
+  }
+  for (let i = 0, n = hidden.length; i < n; ++i) {
+    for (let j = hidden[i].first; j <= hidden[i].last; ++j) {
+      if (!covered[j]) collapsed[j] = true;
+    }
+  }
+}
+
+
+/**
+ * Resolve the size hints of the percent sized tracks for a layout.
+ *
+ * The size basis of a percent sized spec is interpreted as a
+ * percentage of the given space available to the tracks.
+ */
+function resolvePercents(specs: Spec[], sizers: BoxSizer[], space: number): void {
+  space = Math.max(0, space);
+  for (let i = 0, n = sizers.length; i < n; ++i) {
+    if (specs[i].sizing === Sizing.Percent) {
+      sizers[i].sizeHint = space * specs[i].sizeBasis / 100;
+    }
+  }
+}
+
+
+/**
+ * Convert a track size into a size basis value for a spec.
+ *
+ * Percent sized specs are converted relative to the given space.
+ */
+export
+function toBasis(spec: Spec, size: number, space: number): number {
+  if (spec.sizing !== Sizing.Percent) {
+    return size;
+  }
+  return space > 0 ? size * 100 / space : 0;
+}
+
+
+/**
+ * Create the box sizers for the tracks of a grid layout.
+ *
+ * The collapsed tracks are resolved first, including those which
+ * contain only hidden items if `collapseHidden` is true. The sizers
+ * are then grown to fit the min size of the shown items which are
+ * not entirely within collapsed tracks.
+ */
+export
+function fitTracks(rowSpecs: Spec[], colSpecs: Spec[], spacing: IGridSpacing, items: IGridItem[], collapseHidden: boolean): ITrackFit {
+  let rowCollapsed = rowSpecs.map(spec => spec.collapsed);
+  let columnCollapsed = colSpecs.map(spec => spec.collapsed);
+  let rowSizers = rowSpecs.map(makeSizer);
+  let columnSizers = colSpecs.map(makeSizer);
+  let fit = { rowCollapsed, columnCollapsed, rowSizers, columnSizers };
+  let rowCount = rowSpecs.length;
+  let colCount = colSpecs.length;
+  if (rowCount === 0 || colCount === 0) {
+    return fit;
+  }
+  let shown = items.filter(item => !item.hidden);
+  if (collapseHidden) {
+    let hidden = items.filter(item => item.hidden);
+    collapseTracks(rowCollapsed, rowSpans(hidden, rowCount), rowSpans(shown, rowCount));
+    collapseTracks(columnCollapsed, columnSpans(hidden, colCount), columnSpans(shown, colCount));
+  }
+  collapseSizers(rowSizers, rowCollapsed);
+  collapseSizers(columnSizers, columnCollapsed);
+  let expanded = shown.filter(item => !cellCollapsed(rowCollapsed, columnCollapsed, item));
+  let rowItems = rowSpans(expanded, rowCount);
+  let colItems = columnSpans(expanded, colCount);
+  fitContent(rowSpecs, rowCollapsed, rowSizers, spacing.rowSpacing, rowItems);
+  fitContent(colSpecs, columnCollapsed, columnSizers, spacing.columnSpacing, colItems);
+  return fit;
+}
+
+
+/**
+ * Compute the offset rect of the tracks covered by a cell.
+ *
+ * The cell is clamped to the given tracks, and the collapsed tracks
+ * at either end of the cell are excluded. The tracks may be in either
+ * ascending or descending order.
+ */
+export
+function cellsRect(rows: ITrackGeometry, cols: ITrackGeometry, cell: ICell): IRect {
+  let maxRow = rows.sizes.length - 1;
+  let maxCol = cols.sizes.length - 1;
+  let r1 = Math.max(0, Math.min(cell.row, maxRow));
+  let r2 = Math.min(r1 + cell.rowSpan - 1, maxRow);
+  let c1 = Math.max(0, Math.min(cell.column, maxCol));
+  let c2 = Math.min(c1 + cell.columnSpan - 1, maxCol);
+  while (r1 < r2 && rows.collapsed[r1]) r1++;
+  while (r2 > r1 && rows.collapsed[r2]) r2--;
+  while (c1 < c2 && cols.collapsed[c1]) c1++;
+  while (c2 > c1 && cols.collapsed[c2]) c2--;
+  let top = Math.min(rows.offsets[r1], rows.offsets[r2]);
+  let bottom = Math.max(rows.offsets[r1] + rows.sizes[r1], rows.offsets[r2] + rows.sizes[r2]);
+  let left = Math.min(cols.offsets[c1], cols.offsets[c2]);
+  let right = Math.max(cols.offsets[c1] + cols.sizes[c1], cols.offsets[c2] + cols.sizes[c2]);
+  return { top, left, width: right - left, height: bottom - top };
+}
+
+
+/**
+ * Compute the number of spacing gutters between the expanded tracks.
+ */
+export
+function gutterCount(collapsed: boolean[]): number {
+  let count = 0;
+  for (let i = 0, n = collapsed.length; i < n; ++i) {
+    if (!collapsed[i]) count++;
+  }
+  return Math.max(0, count - 1);
+}
+
+
+/**
+ * Compute the offsets of the tracks along an axis.
+ *
+ * The spacing is only added between expanded tracks. A collapsed
+ * track starts at the end of the preceding track.
+ */
+function trackOffsets(collapsed: boolean[], sizes: number[], spacing: number): number[] {
+  let pos = 0;
+  let offsets: number[] = [];
+  let expanded = false;
+  for (let i = 0, n = sizes.length; i < n; ++i) {
+    if (!collapsed[i]) {
+      if (expanded) pos += spacing;
+      expanded = true;
+    }
+    offsets.push(pos);
+    pos += sizes[i];
+  }
+  return offsets;
+}
+
+
+/**
+ * Test whether all of the rows or all of the columns of a cell are
+ * collapsed.
+ *
+ * The cell is clamped to the given tracks.
+ */
+export
+function cellCollapsed(rowCollapsed: boolean[], colCollapsed: boolean[], cell: ICell): boolean {
+  return (
+    spanCollapsed(rowCollapsed, cell.row, cell.rowSpan) ||
+    spanCollapsed(colCollapsed, cell.column, cell.columnSpan)
+  );
+}
+
+
+/**
+ * Test whether all of the tracks of a span are collapsed.
+ *
+ * The span is clamped to the given tracks.
+ */
+function spanCollapsed(collapsed: boolean[], index: number, span: number): boolean {
+  let max = collapsed.length - 1;
+  let first = Math.max(0, Math.min(index, max));
+  let last = Math.min(first + span - 1, max);
+  for (let i = first; i <= last; ++i) {
+    if (!collapsed[i]) return false;
+  }
+  return last >= first;
+}
+
+
+/**
+ * Compute the row spans of the given layout items.
+ *
+ * The row indices are clamped to the given row count.
+ */
+function rowSpans(items: IGridItem[], count: number): ITrackSpan[] {
+  let spans: ITrackSpan[] = [];
+  let maxRow = count - 1;
+  for (let i = 0, n = items.length; i < n; ++i) {
+    let item = items[i];
+    let first = Math.max(0, Math.min(item.row, maxRow));
+    let last = Math.min(first + item.rowSpan - 1, maxRow);
+    let minSize = item.minHeight + verticalMargins(item);
+    spans.push({ first, last, minSize });
+  }
+  return spans;
+}
+
+
+/**
+ * Compute the column spans of the given layout items.
+ *
+ * The column indices are clamped to the given column count.
+ */
+function columnSpans(items: IGridItem[], count: number): ITrackSpan[] {
+  let spans: ITrackSpan[] = [];
+  let maxCol = count - 1;
+  for (let i = 0, n = items.length; i < n; ++i) {
+    let item = items[i];
+    let first = Math.max(0, Math.min(item.column, maxCol));
+    let last = Math.min(first + item.columnSpan - 1, maxCol);
+    let minSize = item.minWidth + horizontalMargins(item);
+    spans.push({ first, last, minSize });
+  }
+  return spans;
+}
+
+
+/**
+ * Grow the sizers to fit the minimum size of the spans.
+ *
+ * Spans which cover fewer tracks are fit first, so that a spanning
+ * child only contributes the space not already provided by the
+ * tracks and spacing it covers.
+ *
+ * The excess requirement of a span is given first to the auto sized
+ * tracks which it covers, and then to the rest of its tracks. A track
+ * is never grown beyond its max size, so a span whose requirement
+ * cannot be met overflows its tracks. The collapsed tracks of a span
+ * are never grown.
+ */
+function fitContent(specs: Spec[], collapsed: boolean[], sizers: BoxSizer[], spacing: number, spans: ITrackSpan[]): void {
+  spans.sort((a, b) => (a.last - a.first) - (b.last - b.first));
+  for (let i = 0, n = spans.length; i < n; ++i) {
+    let span = spans[i];
+    let all: BoxSizer[] = [];
+    let auto: BoxSizer[] = [];
+    let current = 0;
+    for (let j = span.first; j <= span.last; ++j) {
+      if (collapsed[j]) {
+        continue;
+      }
+      current += sizers[j].minSize;
+      all.push(sizers[j]);
+      if (specs[j].sizing === Sizing.Auto) auto.push(sizers[j]);
+    }
+    if (all.length === 0) {
+      continue;
+    }
+    current += spacing * (all.length - 1);
+    growSizers(all, growSizers(auto, span.minSize - current));
+  }
+  for (let i = 0, n = sizers.length; i < n; ++i) {
+    if (specs[i].sizing === Sizing.Auto) {
+      sizers[i].sizeHint = Math.max(sizers[i].sizeHint, sizers[i].minSize);
+    }
+  }
+}
+
+
+/**
+ * Distribute a size increase evenly among the min size of the sizers.
+ *
+ * A sizer will not be grown beyond its max size. Any space which
+ * cannot be allocated to a sizer is given to the remaining sizers.
+ *
+ * Returns the amount of space which could not be allocated.
+ */
+function growSizers(sizers: BoxSizer[], delta: number): number {
+  while (delta > 0 && sizers.length > 0) {
+    let share = delta / sizers.length;
+    let open: BoxSizer[] = [];
+    for (let i = 0, n = sizers.length; i < n; ++i) {
+      let sizer = sizers[i];
+      let room = sizer.maxSize - sizer.minSize;
+      if (room > share) {
+        sizer.minSize += share;
+        delta -= share;
+        open.push(sizer);
+      } else {
+        sizer.minSize = sizer.maxSize;
+        delta -= room;
+      }
+    }
+    if (open.length === sizers.length) {
+      return 0;
+    }
+    sizers = open;
+  }
+  return Math.max(0, delta);
+}
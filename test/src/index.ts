@@ -26,7 +26,10 @@ import {
 } from 'phosphor-widget';
 
 import {
-  GridPanel, Spec
+  Alignment, AutoFlow, Direction, GridPanel, IBreakpoint,
+  IBreakpointFailedArgs, IChildMoveRequestedArgs, IGridState,
+  ILayoutCompletedArgs, IOverlapDetectedArgs, ISpecOptions,
+  ITracksResizedArgs, OverlapPolicy, Sizing, Spec
 } from '../../lib/index';
 
 
@@ -52,6 +55,126 @@ class LogWidget extends Widget {
 }
 
 
+function triggerMouseEvent(node: HTMLElement, eventType: string, clientX = 0, clientY = 0): void {
+  let event = document.createEvent('MouseEvent');
+  event.initMouseEvent(
+    eventType, true, true, window, 0, 0, 0, clientX, clientY,
+    false, false, false, false, 0, null
+  );
+  node.dispatchEvent(event);
+}
+
+
+function triggerKeyEvent(node: HTMLElement, eventType: string, keyCode: number): void {
+  let event = document.createEvent('Event');
+  event.initEvent(eventType, true, true);
+  Object.defineProperty(event, 'keyCode', { value: keyCode });
+  node.dispatchEvent(event);
+}
+
+
+function createResizablePanel(): GridPanel {
+  let panel = new GridPanel();
+  panel.resizable = true;
+  panel.rowSpacing = 10;
+  panel.columnSpacing = 10;
+  panel.rowSpecs = [new Spec(), new Spec()];
+  panel.columnSpecs = [new Spec({ minSize: 50 }), new Spec({ minSize: 50 })];
+  panel.addChild(new Widget());
+  panel.node.style.position = 'absolute';
+  panel.node.style.top = '0px';
+  panel.node.style.left = '0px';
+  panel.node.style.width = '210px';
+  panel.node.style.height = '210px';
+  panel.attach(document.body);
+  sendMessage(panel, Widget.MsgLayoutRequest);
+  return panel;
+}
+
+
+function createDraggablePanel(): GridPanel {
+  let panel = new GridPanel();
+  panel.draggable = true;
+  panel.rowSpacing = 0;
+  panel.columnSpacing = 0;
+  panel.rowSpecs = createSpecs(2);
+  panel.columnSpecs = createSpecs(2);
+  panel.addChild(new Widget());
+  layoutPanel(panel, 200, 200);
+  return panel;
+}
+
+
+function createOccupiedPanel(): GridPanel {
+  let panel = new GridPanel();
+  let children = [new Widget(), new Widget()];
+  GridPanel.setRow(children[1], 1);
+  GridPanel.setColumn(children[1], 1);
+  GridPanel.setColumnSpan(children[1], 2);
+  panel.rowSpacing = 0;
+  panel.columnSpacing = 0;
+  panel.rowSpecs = createSpecs(2);
+  panel.columnSpecs = createSpecs(3);
+  children.forEach(child => { panel.addChild(child); });
+  layoutPanel(panel, 300, 200);
+  return panel;
+}
+
+
+function createOverlapPanel(policy: OverlapPolicy): GridPanel {
+  let panel = new GridPanel();
+  let children = [new Widget(), new Widget(), new Widget()];
+  GridPanel.setColumn(children[1], 1);
+  panel.overlapPolicy = policy;
+  panel.rowSpecs = createSpecs(1);
+  panel.columnSpecs = createSpecs(3);
+  children.forEach(child => { panel.addChild(child); });
+  panel.attach(document.body);
+  return panel;
+}
+
+
+function createSpecs(count: number): Spec[] {
+  let specs: Spec[] = [];
+  for (let i = 0; i < count; ++i) specs.push(new Spec());
+  return specs;
+}
+
+
+function createBreakpoint(name: string, minWidth: number, columns: number): IBreakpoint {
+  let columnSpecs: ISpecOptions[] = [];
+  for (let i = 0; i < columns; ++i) columnSpecs.push({});
+  let state: IGridState = {
+    rowSpecs: [{}],
+    columnSpecs,
+    rowSpacing: 0,
+    columnSpacing: 0,
+    children: [{ key: 'child', row: 0, column: 0, rowSpan: 1, columnSpan: 1 }]
+  };
+  return { name, minWidth, state };
+}
+
+
+function layoutPanel(panel: GridPanel, width: number, height: number): void {
+  panel.node.style.position = 'absolute';
+  panel.node.style.top = '0px';
+  panel.node.style.left = '0px';
+  panel.node.style.width = '0px';
+  panel.node.style.height = '0px';
+  if (!panel.isAttached) panel.attach(document.body);
+  sendMessage(panel, Widget.MsgLayoutRequest);
+  panel.node.style.width = width + 'px';
+  panel.node.style.height = height + 'px';
+  sendMessage(panel, new ResizeMessage(width, height));
+}
+
+
+function expectCell(widget: Widget, row: number, column: number): void {
+  expect(widget.node.offsetTop).to.be(row * 100);
+  expect(widget.node.offsetLeft).to.be(column * 100);
+}
+
+
 function expectArraysEqv<T>(a: T[], b: T[]): void {
   expect(a.length).to.be(b.length);
   for (let i = 0, n = a.length; i < n; ++i) {
@@ -64,6 +187,54 @@ describe('phosphor-gridpanel', () => {
 
   describe('GridPanel', () => {
 
+    describe('.tracksResizedSignal', () => {
+
+      it('should be a signal instance', () => {
+        expect(GridPanel.tracksResizedSignal instanceof Signal).to.be(true);
+      });
+
+    });
+
+    describe('.layoutChangedSignal', () => {
+
+      it('should be a signal instance', () => {
+        expect(GridPanel.layoutChangedSignal instanceof Signal).to.be(true);
+      });
+
+    });
+
+    describe('.breakpointFailedSignal', () => {
+
+      it('should be a signal instance', () => {
+        expect(GridPanel.breakpointFailedSignal instanceof Signal).to.be(true);
+      });
+
+    });
+
+    describe('.layoutCompletedSignal', () => {
+
+      it('should be a signal instance', () => {
+        expect(GridPanel.layoutCompletedSignal instanceof Signal).to.be(true);
+      });
+
+    });
+
+    describe('.childMoveRequestedSignal', () => {
+
+      it('should be a signal instance', () => {
+        expect(GridPanel.childMoveRequestedSignal instanceof Signal).to.be(true);
+      });
+
+    });
+
+    describe('.overlapDetectedSignal', () => {
+
+      it('should be a signal instance', () => {
+        expect(GridPanel.overlapDetectedSignal instanceof Signal).to.be(true);
+      });
+
+    });
+
     describe('.rowSpecsProperty', () => {
 
       it('should be a property descriptor', () => {
@@ -150,6 +321,66 @@ describe('phosphor-gridpanel', () => {
 
     });
 
+    describe('.autoRowSpecProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.autoRowSpecProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `autoRowSpec`', () => {
+        expect(GridPanel.autoRowSpecProperty.name).to.be('autoRowSpec');
+      });
+
+      it('should default to `null`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.autoRowSpecProperty.get(panel)).to.be(null);
+      });
+
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.autoRowSpecProperty.set(panel, new Spec());
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.autoColumnSpecProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.autoColumnSpecProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `autoColumnSpec`', () => {
+        expect(GridPanel.autoColumnSpecProperty.name).to.be('autoColumnSpec');
+      });
+
+      it('should default to `null`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.autoColumnSpecProperty.get(panel)).to.be(null);
+      });
+
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.autoColumnSpecProperty.set(panel, new Spec());
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
     describe('.rowSpacingProperty', () => {
 
       it('should be a property descriptor', () => {
@@ -234,45 +465,29 @@ describe('phosphor-gridpanel', () => {
 
     });
 
-    describe('.rowProperty', () => {
+    describe('.resizableProperty', () => {
 
       it('should be a property descriptor', () => {
-        expect(GridPanel.rowProperty instanceof Property).to.be(true);
-      });
-
-      it('should have the name `row`', () => {
-        expect(GridPanel.rowProperty.name).to.be('row');
-      });
-
-      it('should default to `0`', () => {
-        let widget = new Widget();
-        expect(GridPanel.rowProperty.get(widget)).to.be(0);
+        expect(GridPanel.resizableProperty instanceof Property).to.be(true);
       });
 
-      it('should floor fractional values', () => {
-        let widget = new Widget();
-        GridPanel.rowProperty.set(widget, 4.5);
-        expect(GridPanel.rowProperty.get(widget)).to.be(4);
+      it('should have the name `resizable`', () => {
+        expect(GridPanel.resizableProperty.name).to.be('resizable');
       });
 
-      it('should clamp values to a minimum of zero', () => {
-        let widget = new Widget();
-        GridPanel.rowProperty.set(widget, -4);
-        expect(GridPanel.rowProperty.get(widget)).to.be(0);
+      it('should default to `false`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.resizableProperty.get(panel)).to.be(false);
       });
 
-      it('should post an `update-request` to the parent', (done) => {
+      it('should post a `layout-request`', (done) => {
         let panel = new LogPanel();
-        let child0 = new Widget();
-        let child1 = new Widget();
-        panel.addChild(child0);
-        panel.addChild(child1);
         panel.attach(document.body);
         clearMessageData(panel);
-        GridPanel.rowProperty.set(child0, 1);
-        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        GridPanel.resizableProperty.set(panel, true);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
         requestAnimationFrame(() => {
-          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
           panel.dispose();
           done();
         });
@@ -280,45 +495,29 @@ describe('phosphor-gridpanel', () => {
 
     });
 
-    describe('.columnProperty', () => {
+    describe('.directionProperty', () => {
 
       it('should be a property descriptor', () => {
-        expect(GridPanel.columnProperty instanceof Property).to.be(true);
-      });
-
-      it('should have the name `column`', () => {
-        expect(GridPanel.columnProperty.name).to.be('column');
-      });
-
-      it('should default to `0`', () => {
-        let widget = new Widget();
-        expect(GridPanel.columnProperty.get(widget)).to.be(0);
+        expect(GridPanel.directionProperty instanceof Property).to.be(true);
       });
 
-      it('should floor fractional values', () => {
-        let widget = new Widget();
-        GridPanel.columnProperty.set(widget, 4.5);
-        expect(GridPanel.columnProperty.get(widget)).to.be(4);
+      it('should have the name `direction`', () => {
+        expect(GridPanel.directionProperty.name).to.be('direction');
       });
 
-      it('should clamp values to a minimum of zero', () => {
-        let widget = new Widget();
-        GridPanel.columnProperty.set(widget, -4);
-        expect(GridPanel.columnProperty.get(widget)).to.be(0);
+      it('should default to `Direction.Auto`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.directionProperty.get(panel)).to.be(Direction.Auto);
       });
 
-      it('should post an `update-request` to the parent', (done) => {
+      it('should post a `layout-request`', (done) => {
         let panel = new LogPanel();
-        let child0 = new Widget();
-        let child1 = new Widget();
-        panel.addChild(child0);
-        panel.addChild(child1);
         panel.attach(document.body);
         clearMessageData(panel);
-        GridPanel.columnProperty.set(child0, 1);
-        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        GridPanel.directionProperty.set(panel, Direction.RightToLeft);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
         requestAnimationFrame(() => {
-          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
           panel.dispose();
           done();
         });
@@ -326,91 +525,98 @@ describe('phosphor-gridpanel', () => {
 
     });
 
-    describe('.rowSpanProperty', () => {
+    describe('.breakpointsProperty', () => {
 
       it('should be a property descriptor', () => {
-        expect(GridPanel.rowSpanProperty instanceof Property).to.be(true);
+        expect(GridPanel.breakpointsProperty instanceof Property).to.be(true);
       });
 
-      it('should have the name `rowSpan`', () => {
-        expect(GridPanel.rowSpanProperty.name).to.be('rowSpan');
+      it('should have the name `breakpoints`', () => {
+        expect(GridPanel.breakpointsProperty.name).to.be('breakpoints');
       });
 
-      it('should default to `1`', () => {
-        let widget = new Widget();
-        expect(GridPanel.rowSpanProperty.get(widget)).to.be(1);
+      it('should default to a frozen empty array', () => {
+        let panel = new GridPanel();
+        let breakpoints = GridPanel.breakpointsProperty.get(panel);
+        expectArraysEqv(breakpoints, []);
+        expect(() => breakpoints.push(null)).to.throwError();
       });
 
-      it('should floor fractional values', () => {
-        let widget = new Widget();
-        GridPanel.rowSpanProperty.set(widget, 4.5);
-        expect(GridPanel.rowSpanProperty.get(widget)).to.be(4);
+      it('should shallow copy and freeze the breakpoints', () => {
+        let panel = new GridPanel();
+        let breakpoints1 = [createBreakpoint('a', 0, 1)];
+        GridPanel.breakpointsProperty.set(panel, breakpoints1);
+        let breakpoints2 = GridPanel.breakpointsProperty.get(panel);
+        expectArraysEqv(breakpoints1, breakpoints2);
+        expect(breakpoints1).to.not.be(breakpoints2);
+        expect(() => breakpoints2.push(null)).to.throwError();
       });
 
-      it('should clamp values to a minimum of `1`', () => {
-        let widget = new Widget();
-        GridPanel.rowSpanProperty.set(widget, -4);
-        expect(GridPanel.rowSpanProperty.get(widget)).to.be(1);
+    });
+
+    describe('.animationDurationProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.animationDurationProperty instanceof Property).to.be(true);
       });
 
-      it('should post an `update-request` to the parent', (done) => {
-        let panel = new LogPanel();
-        let child0 = new Widget();
-        let child1 = new Widget();
-        panel.addChild(child0);
-        panel.addChild(child1);
-        panel.attach(document.body);
-        clearMessageData(panel);
-        GridPanel.rowSpanProperty.set(child0, 2);
-        expect(panel.messages.indexOf('update-request')).to.be(-1);
-        requestAnimationFrame(() => {
-          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
-          panel.dispose();
-          done();
-        });
+      it('should have the name `animationDuration`', () => {
+        expect(GridPanel.animationDurationProperty.name).to.be('animationDuration');
+      });
+
+      it('should default to `0`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.animationDurationProperty.get(panel)).to.be(0);
+      });
+
+      it('should clamp values to a minimum of zero', () => {
+        let panel = new GridPanel();
+        GridPanel.animationDurationProperty.set(panel, -100);
+        expect(GridPanel.animationDurationProperty.get(panel)).to.be(0);
       });
 
     });
 
-    describe('.columnSpanProperty', () => {
+    describe('.draggableProperty', () => {
 
       it('should be a property descriptor', () => {
-        expect(GridPanel.columnSpanProperty instanceof Property).to.be(true);
+        expect(GridPanel.draggableProperty instanceof Property).to.be(true);
       });
 
-      it('should have the name `columnSpan`', () => {
-        expect(GridPanel.columnSpanProperty.name).to.be('columnSpan');
+      it('should have the name `draggable`', () => {
+        expect(GridPanel.draggableProperty.name).to.be('draggable');
       });
 
-      it('should default to `1`', () => {
-        let widget = new Widget();
-        expect(GridPanel.columnSpanProperty.get(widget)).to.be(1);
+      it('should default to `false`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.draggableProperty.get(panel)).to.be(false);
       });
 
-      it('should floor fractional values', () => {
-        let widget = new Widget();
-        GridPanel.columnSpanProperty.set(widget, 4.5);
-        expect(GridPanel.columnSpanProperty.get(widget)).to.be(4);
+    });
+
+    describe('.collapseHiddenProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.collapseHiddenProperty instanceof Property).to.be(true);
       });
 
-      it('should clamp values to a minimum of `1`', () => {
-        let widget = new Widget();
-        GridPanel.columnSpanProperty.set(widget, -4);
-        expect(GridPanel.columnSpanProperty.get(widget)).to.be(1);
+      it('should have the name `collapseHidden`', () => {
+        expect(GridPanel.collapseHiddenProperty.name).to.be('collapseHidden');
       });
 
-      it('should post an `update-request` to the parent', (done) => {
+      it('should default to `false`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.collapseHiddenProperty.get(panel)).to.be(false);
+      });
+
+      it('should post a `layout-request`', (done) => {
         let panel = new LogPanel();
-        let child0 = new Widget();
-        let child1 = new Widget();
-        panel.addChild(child0);
-        panel.addChild(child1);
         panel.attach(document.body);
         clearMessageData(panel);
-        GridPanel.columnSpanProperty.set(child0, 2);
-        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        GridPanel.collapseHiddenProperty.set(panel, true);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
         requestAnimationFrame(() => {
-          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
           panel.dispose();
           done();
         });
@@ -418,251 +624,2848 @@ describe('phosphor-gridpanel', () => {
 
     });
 
-    describe('.getRow', () => {
+    describe('.overlapPolicyProperty', () => {
 
-      it('should return the origin row index for the given widget', () => {
-        let widget = new Widget();
-        expect(GridPanel.getRow(widget)).to.be(0);
+      it('should be a property descriptor', () => {
+        expect(GridPanel.overlapPolicyProperty instanceof Property).to.be(true);
       });
 
-      it('should be a pure delegate to rowProperty', () => {
+      it('should have the name `overlapPolicy`', () => {
+        expect(GridPanel.overlapPolicyProperty.name).to.be('overlapPolicy');
+      });
+
+      it('should default to `OverlapPolicy.Allow`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.overlapPolicyProperty.get(panel)).to.be(OverlapPolicy.Allow);
+      });
+
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.overlapPolicyProperty.set(panel, OverlapPolicy.Warn);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.templateAreasProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.templateAreasProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `templateAreas`', () => {
+        expect(GridPanel.templateAreasProperty.name).to.be('templateAreas');
+      });
+
+      it('should default to a frozen empty array', () => {
+        let panel = new GridPanel();
+        let template = GridPanel.templateAreasProperty.get(panel);
+        expectArraysEqv(template, []);
+        expect(() => template.push('a')).to.throwError();
+      });
+
+      it('should shallow copy and freeze the template', () => {
+        let panel = new GridPanel();
+        let template1 = ['a b', 'c d'];
+        GridPanel.templateAreasProperty.set(panel, template1);
+        let template2 = GridPanel.templateAreasProperty.get(panel);
+        expectArraysEqv(template1, template2);
+        expect(template1).to.not.be(template2);
+        expect(() => template2.push('e f')).to.throwError();
+      });
+
+      it('should throw an error for rows of different length', () => {
+        let panel = new GridPanel();
+        let template = ['a b', 'c'];
+        expect(() => { panel.templateAreas = template; }).to.throwError(/row 1/);
+        expectArraysEqv(panel.templateAreas, []);
+      });
+
+      it('should throw an error for a non-rectangular area', () => {
+        let panel = new GridPanel();
+        let template = ['a a', 'a b'];
+        expect(() => { panel.templateAreas = template; }).to.throwError(/'a'/);
+      });
+
+      it('should throw an error for a disjoint area', () => {
+        let panel = new GridPanel();
+        let template = ['a b a'];
+        expect(() => { panel.templateAreas = template; }).to.throwError(/'a'/);
+      });
+
+      it('should allow unnamed cells', () => {
+        let panel = new GridPanel();
+        let template = ['a ...', '. b'];
+        expect(() => { panel.templateAreas = template; }).to.not.throwError();
+      });
+
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.templateAreasProperty.set(panel, ['a']);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.areaProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.areaProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `area`', () => {
+        expect(GridPanel.areaProperty.name).to.be('area');
+      });
+
+      it('should default to an empty string', () => {
         let widget = new Widget();
-        GridPanel.rowProperty.set(widget, 1);
-        expect(GridPanel.getRow(widget)).to.be(1);
+        expect(GridPanel.areaProperty.get(widget)).to.be('');
+      });
+
+      it('should post a `layout-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child = new Widget();
+        panel.addChild(child);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.areaProperty.set(child, 'a');
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
       });
 
     });
 
-    describe('.setRow', () => {
+    describe('.autoPlaceProperty', () => {
 
-      it('should set the origin row index for the given widget.', () => {
+      it('should be a property descriptor', () => {
+        expect(GridPanel.autoPlaceProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `autoPlace`', () => {
+        expect(GridPanel.autoPlaceProperty.name).to.be('autoPlace');
+      });
+
+      it('should default to `false`', () => {
         let widget = new Widget();
-        GridPanel.setRow(widget, 2);
-        expect(GridPanel.getRow(widget)).to.be(2);
+        expect(GridPanel.autoPlaceProperty.get(widget)).to.be(false);
       });
 
-      it('should be a pure delegate to rowProperty', () => {
+      it('should post a `layout-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child = new Widget();
+        panel.addChild(child);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.autoPlaceProperty.set(child, true);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.horizontalAlignmentProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.horizontalAlignmentProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `horizontalAlignment`', () => {
+        expect(GridPanel.horizontalAlignmentProperty.name).to.be('horizontalAlignment');
+      });
+
+      it('should default to `Alignment.Stretch`', () => {
         let widget = new Widget();
-        GridPanel.setRow(widget, 2);
-        expect(GridPanel.rowProperty.get(widget)).to.be(2);
+        expect(GridPanel.horizontalAlignmentProperty.get(widget)).to.be(Alignment.Stretch);
+      });
+
+      it('should post an `update-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child = new Widget();
+        panel.addChild(child);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.horizontalAlignmentProperty.set(child, Alignment.Center);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
       });
 
     });
 
-    describe('.getColumn', () => {
+    describe('.verticalAlignmentProperty', () => {
 
-      it('should return the origin column index for the given widget', () => {
+      it('should be a property descriptor', () => {
+        expect(GridPanel.verticalAlignmentProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `verticalAlignment`', () => {
+        expect(GridPanel.verticalAlignmentProperty.name).to.be('verticalAlignment');
+      });
+
+      it('should default to `Alignment.Stretch`', () => {
         let widget = new Widget();
-        expect(GridPanel.getColumn(widget)).to.be(0);
+        expect(GridPanel.verticalAlignmentProperty.get(widget)).to.be(Alignment.Stretch);
       });
 
-      it('should be a pure delegate to columnProperty', () => {
+      it('should post an `update-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child = new Widget();
+        panel.addChild(child);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.verticalAlignmentProperty.set(child, Alignment.Center);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.marginTopProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.marginTopProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `marginTop`', () => {
+        expect(GridPanel.marginTopProperty.name).to.be('marginTop');
+      });
+
+      it('should default to `0`', () => {
         let widget = new Widget();
-        GridPanel.columnProperty.set(widget, 2);
-        expect(GridPanel.getColumn(widget)).to.be(2);
+        expect(GridPanel.marginTopProperty.get(widget)).to.be(0);
+      });
+
+      it('should clamp values to a minimum of zero', () => {
+        let widget = new Widget();
+        GridPanel.marginTopProperty.set(widget, -4);
+        expect(GridPanel.marginTopProperty.get(widget)).to.be(0);
       });
 
     });
 
-    describe('.setColumn', () => {
+    describe('.marginRightProperty', () => {
 
-      it('should set the origin column index for the given widget.', () => {
+      it('should be a property descriptor', () => {
+        expect(GridPanel.marginRightProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `marginRight`', () => {
+        expect(GridPanel.marginRightProperty.name).to.be('marginRight');
+      });
+
+      it('should default to `0`', () => {
         let widget = new Widget();
-        GridPanel.setColumn(widget, 2);
-        expect(GridPanel.getColumn(widget)).to.be(2);
+        expect(GridPanel.marginRightProperty.get(widget)).to.be(0);
       });
 
-      it('should be a pure delegate to columnProperty', () => {
+      it('should clamp values to a minimum of zero', () => {
         let widget = new Widget();
-        GridPanel.setColumn(widget, 1);
-        expect(GridPanel.columnProperty.get(widget)).to.be(1);
+        GridPanel.marginRightProperty.set(widget, -4);
+        expect(GridPanel.marginRightProperty.get(widget)).to.be(0);
+      });
+
+    });
+
+    describe('.marginBottomProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.marginBottomProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `marginBottom`', () => {
+        expect(GridPanel.marginBottomProperty.name).to.be('marginBottom');
+      });
+
+      it('should default to `0`', () => {
+        let widget = new Widget();
+        expect(GridPanel.marginBottomProperty.get(widget)).to.be(0);
+      });
+
+      it('should clamp values to a minimum of zero', () => {
+        let widget = new Widget();
+        GridPanel.marginBottomProperty.set(widget, -4);
+        expect(GridPanel.marginBottomProperty.get(widget)).to.be(0);
+      });
+
+    });
+
+    describe('.marginLeftProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.marginLeftProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `marginLeft`', () => {
+        expect(GridPanel.marginLeftProperty.name).to.be('marginLeft');
+      });
+
+      it('should default to `0`', () => {
+        let widget = new Widget();
+        expect(GridPanel.marginLeftProperty.get(widget)).to.be(0);
+      });
+
+      it('should clamp values to a minimum of zero', () => {
+        let widget = new Widget();
+        GridPanel.marginLeftProperty.set(widget, -4);
+        expect(GridPanel.marginLeftProperty.get(widget)).to.be(0);
+      });
+
+    });
+
+    describe('.zIndexProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.zIndexProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `zIndex`', () => {
+        expect(GridPanel.zIndexProperty.name).to.be('zIndex');
+      });
+
+      it('should default to `0`', () => {
+        let widget = new Widget();
+        expect(GridPanel.zIndexProperty.get(widget)).to.be(0);
+      });
+
+      it('should floor fractional values', () => {
+        let widget = new Widget();
+        GridPanel.zIndexProperty.set(widget, 4.5);
+        expect(GridPanel.zIndexProperty.get(widget)).to.be(4);
+      });
+
+      it('should allow negative values', () => {
+        let widget = new Widget();
+        GridPanel.zIndexProperty.set(widget, -2);
+        expect(GridPanel.zIndexProperty.get(widget)).to.be(-2);
+      });
+
+    });
+
+    describe('.autoFlowProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.autoFlowProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `autoFlow`', () => {
+        expect(GridPanel.autoFlowProperty.name).to.be('autoFlow');
+      });
+
+      it('should default to `AutoFlow.None`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.autoFlowProperty.get(panel)).to.be(AutoFlow.None);
+      });
+
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.autoFlowProperty.set(panel, AutoFlow.Row);
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.debugProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.debugProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `debug`', () => {
+        expect(GridPanel.debugProperty.name).to.be('debug');
+      });
+
+      it('should default to `false`', () => {
+        let panel = new GridPanel();
+        expect(GridPanel.debugProperty.get(panel)).to.be(false);
+      });
+
+      it('should post an `update-request`', (done) => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.debugProperty.set(panel, true);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.rowProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.rowProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `row`', () => {
+        expect(GridPanel.rowProperty.name).to.be('row');
+      });
+
+      it('should default to `0`', () => {
+        let widget = new Widget();
+        expect(GridPanel.rowProperty.get(widget)).to.be(0);
+      });
+
+      it('should floor fractional values', () => {
+        let widget = new Widget();
+        GridPanel.rowProperty.set(widget, 4.5);
+        expect(GridPanel.rowProperty.get(widget)).to.be(4);
+      });
+
+      it('should clamp values to a minimum of zero', () => {
+        let widget = new Widget();
+        GridPanel.rowProperty.set(widget, -4);
+        expect(GridPanel.rowProperty.get(widget)).to.be(0);
+      });
+
+      it('should post an `update-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        panel.addChild(child0);
+        panel.addChild(child1);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.rowProperty.set(child0, 1);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.columnProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.columnProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `column`', () => {
+        expect(GridPanel.columnProperty.name).to.be('column');
+      });
+
+      it('should default to `0`', () => {
+        let widget = new Widget();
+        expect(GridPanel.columnProperty.get(widget)).to.be(0);
+      });
+
+      it('should floor fractional values', () => {
+        let widget = new Widget();
+        GridPanel.columnProperty.set(widget, 4.5);
+        expect(GridPanel.columnProperty.get(widget)).to.be(4);
+      });
+
+      it('should clamp values to a minimum of zero', () => {
+        let widget = new Widget();
+        GridPanel.columnProperty.set(widget, -4);
+        expect(GridPanel.columnProperty.get(widget)).to.be(0);
+      });
+
+      it('should post an `update-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        panel.addChild(child0);
+        panel.addChild(child1);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.columnProperty.set(child0, 1);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.rowSpanProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.rowSpanProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `rowSpan`', () => {
+        expect(GridPanel.rowSpanProperty.name).to.be('rowSpan');
+      });
+
+      it('should default to `1`', () => {
+        let widget = new Widget();
+        expect(GridPanel.rowSpanProperty.get(widget)).to.be(1);
+      });
+
+      it('should floor fractional values', () => {
+        let widget = new Widget();
+        GridPanel.rowSpanProperty.set(widget, 4.5);
+        expect(GridPanel.rowSpanProperty.get(widget)).to.be(4);
+      });
+
+      it('should clamp values to a minimum of `1`', () => {
+        let widget = new Widget();
+        GridPanel.rowSpanProperty.set(widget, -4);
+        expect(GridPanel.rowSpanProperty.get(widget)).to.be(1);
+      });
+
+      it('should post an `update-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        panel.addChild(child0);
+        panel.addChild(child1);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.rowSpanProperty.set(child0, 2);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.columnSpanProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(GridPanel.columnSpanProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `columnSpan`', () => {
+        expect(GridPanel.columnSpanProperty.name).to.be('columnSpan');
+      });
+
+      it('should default to `1`', () => {
+        let widget = new Widget();
+        expect(GridPanel.columnSpanProperty.get(widget)).to.be(1);
+      });
+
+      it('should floor fractional values', () => {
+        let widget = new Widget();
+        GridPanel.columnSpanProperty.set(widget, 4.5);
+        expect(GridPanel.columnSpanProperty.get(widget)).to.be(4);
+      });
+
+      it('should clamp values to a minimum of `1`', () => {
+        let widget = new Widget();
+        GridPanel.columnSpanProperty.set(widget, -4);
+        expect(GridPanel.columnSpanProperty.get(widget)).to.be(1);
+      });
+
+      it('should post an `update-request` to the parent', (done) => {
+        let panel = new LogPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        panel.addChild(child0);
+        panel.addChild(child1);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        GridPanel.columnSpanProperty.set(child0, 2);
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('.getRow', () => {
+
+      it('should return the origin row index for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getRow(widget)).to.be(0);
+      });
+
+      it('should be a pure delegate to rowProperty', () => {
+        let widget = new Widget();
+        GridPanel.rowProperty.set(widget, 1);
+        expect(GridPanel.getRow(widget)).to.be(1);
+      });
+
+    });
+
+    describe('.setRow', () => {
+
+      it('should set the origin row index for the given widget.', () => {
+        let widget = new Widget();
+        GridPanel.setRow(widget, 2);
+        expect(GridPanel.getRow(widget)).to.be(2);
+      });
+
+      it('should be a pure delegate to rowProperty', () => {
+        let widget = new Widget();
+        GridPanel.setRow(widget, 2);
+        expect(GridPanel.rowProperty.get(widget)).to.be(2);
+      });
+
+    });
+
+    describe('.getColumn', () => {
+
+      it('should return the origin column index for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getColumn(widget)).to.be(0);
+      });
+
+      it('should be a pure delegate to columnProperty', () => {
+        let widget = new Widget();
+        GridPanel.columnProperty.set(widget, 2);
+        expect(GridPanel.getColumn(widget)).to.be(2);
+      });
+
+    });
+
+    describe('.setColumn', () => {
+
+      it('should set the origin column index for the given widget.', () => {
+        let widget = new Widget();
+        GridPanel.setColumn(widget, 2);
+        expect(GridPanel.getColumn(widget)).to.be(2);
+      });
+
+      it('should be a pure delegate to columnProperty', () => {
+        let widget = new Widget();
+        GridPanel.setColumn(widget, 1);
+        expect(GridPanel.columnProperty.get(widget)).to.be(1);
+      });
+
+    });
+
+    describe('.getRowSpan', () => {
+
+      it('should return the row span for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getRowSpan(widget)).to.be(1);
+      });
+
+      it('should be a pure delegate to rowSpanProperty', () => {
+        let widget = new Widget();
+        GridPanel.rowSpanProperty.set(widget, 2);
+        expect(GridPanel.getRowSpan(widget)).to.be(2);
+      });
+
+    });
+
+    describe('.setRowSpan', () => {
+
+      it('should set the row span for the given widget', () => {
+        let widget = new Widget();
+        GridPanel.setRowSpan(widget, 2);
+        expect(GridPanel.getRowSpan(widget)).to.be(2);
+      });
+
+      it('should be a pure delegate to rowSpanProperty', () => {
+        let widget = new Widget();
+        GridPanel.setRowSpan(widget, 1);
+        expect(GridPanel.rowSpanProperty.get(widget)).to.be(1);
+      });
+
+    });
+
+    describe('.getColumnSpan', () => {
+
+      it('should return the column span for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getColumnSpan(widget)).to.be(1);
+      });
+
+      it('should be a pure delegate to columnSpanProperty', () => {
+        let widget = new Widget();
+        GridPanel.columnSpanProperty.set(widget, 2);
+        expect(GridPanel.getColumnSpan(widget)).to.be(2);
+      });
+
+    });
+
+    describe('.setColumnSpan', () => {
+
+      it('should set the column span for the given widget', () => {
+        let widget = new Widget();
+        GridPanel.setColumnSpan(widget, 2);
+        expect(GridPanel.getColumnSpan(widget)).to.be(2);
+      });
+
+      it('should be a pure delegate to columnSpanProperty', () => {
+        let widget = new Widget();
+        GridPanel.setColumnSpan(widget, 1);
+        expect(GridPanel.columnSpanProperty.get(widget)).to.be(1);
+      });
+
+    });
+
+    describe('.getArea', () => {
+
+      it('should return the area name for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getArea(widget)).to.be('');
+      });
+
+      it('should be a pure delegate to areaProperty', () => {
+        let widget = new Widget();
+        GridPanel.areaProperty.set(widget, 'main');
+        expect(GridPanel.getArea(widget)).to.be('main');
+      });
+
+    });
+
+    describe('.setArea', () => {
+
+      it('should set the area name for the given widget', () => {
+        let widget = new Widget();
+        GridPanel.setArea(widget, 'main');
+        expect(GridPanel.getArea(widget)).to.be('main');
+      });
+
+      it('should be a pure delegate to areaProperty', () => {
+        let widget = new Widget();
+        GridPanel.setArea(widget, 'nav');
+        expect(GridPanel.areaProperty.get(widget)).to.be('nav');
+      });
+
+    });
+
+    describe('.getAutoPlace', () => {
+
+      it('should return the auto placement flag for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getAutoPlace(widget)).to.be(false);
+      });
+
+      it('should be a pure delegate to autoPlaceProperty', () => {
+        let widget = new Widget();
+        GridPanel.autoPlaceProperty.set(widget, true);
+        expect(GridPanel.getAutoPlace(widget)).to.be(true);
+      });
+
+    });
+
+    describe('.setAutoPlace', () => {
+
+      it('should set the auto placement flag for the given widget', () => {
+        let widget = new Widget();
+        GridPanel.setAutoPlace(widget, true);
+        expect(GridPanel.getAutoPlace(widget)).to.be(true);
+      });
+
+      it('should be a pure delegate to autoPlaceProperty', () => {
+        let widget = new Widget();
+        GridPanel.setAutoPlace(widget, true);
+        expect(GridPanel.autoPlaceProperty.get(widget)).to.be(true);
+      });
+
+    });
+
+    describe('.getHorizontalAlignment', () => {
+
+      it('should return the horizontal alignment for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getHorizontalAlignment(widget)).to.be(Alignment.Stretch);
+      });
+
+      it('should be a pure delegate to horizontalAlignmentProperty', () => {
+        let widget = new Widget();
+        GridPanel.horizontalAlignmentProperty.set(widget, Alignment.End);
+        expect(GridPanel.getHorizontalAlignment(widget)).to.be(Alignment.End);
+      });
+
+    });
+
+    describe('.setHorizontalAlignment', () => {
+
+      it('should set the horizontal alignment for the given widget', () => {
+        let widget = new Widget();
+        GridPanel.setHorizontalAlignment(widget, Alignment.Center);
+        expect(GridPanel.getHorizontalAlignment(widget)).to.be(Alignment.Center);
+      });
+
+      it('should be a pure delegate to horizontalAlignmentProperty', () => {
+        let widget = new Widget();
+        GridPanel.setHorizontalAlignment(widget, Alignment.Start);
+        expect(GridPanel.horizontalAlignmentProperty.get(widget)).to.be(Alignment.Start);
+      });
+
+    });
+
+    describe('.getVerticalAlignment', () => {
+
+      it('should return the vertical alignment for the given widget', () => {
+        let widget = new Widget();
+        expect(GridPanel.getVerticalAlignment(widget)).to.be(Alignment.Stretch);
+      });
+
+      it('should be a pure delegate to verticalAlignmentProperty', () => {
+        let widget = new Widget();
+        GridPanel.verticalAlignmentProperty.set(widget, Alignment.End);
+        expect(GridPanel.getVerticalAlignment(widget)).to.be(Alignment.End);
+      });
+
+    });
+
+    describe('.setVerticalAlignment', () => {
+
+      it('should set the vertical alignment for the given widget', () => {
+        let widget = new Widget();
+        GridPanel.setVerticalAlignment(widget, Alignment.Center);
+        expect(GridPanel.getVerticalAlignment(widget)).to.be(Alignment.Center);
+      });
+
+      it('should be a pure delegate to verticalAlignmentProperty', () => {
+        let widget = new Widget();
+        GridPanel.setVerticalAlignment(widget, Alignment.Start);
+        expect(GridPanel.verticalAlignmentProperty.get(widget)).to.be(Alignment.Start);
+      });
+
+    });
+
+    describe('.getMarginTop', () => {
+
+      it('should be a pure delegate to marginTopProperty', () => {
+        let widget = new Widget();
+        GridPanel.marginTopProperty.set(widget, 4);
+        expect(GridPanel.getMarginTop(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.setMarginTop', () => {
+
+      it('should be a pure delegate to marginTopProperty', () => {
+        let widget = new Widget();
+        GridPanel.setMarginTop(widget, 4);
+        expect(GridPanel.marginTopProperty.get(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.getMarginRight', () => {
+
+      it('should be a pure delegate to marginRightProperty', () => {
+        let widget = new Widget();
+        GridPanel.marginRightProperty.set(widget, 4);
+        expect(GridPanel.getMarginRight(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.setMarginRight', () => {
+
+      it('should be a pure delegate to marginRightProperty', () => {
+        let widget = new Widget();
+        GridPanel.setMarginRight(widget, 4);
+        expect(GridPanel.marginRightProperty.get(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.getMarginBottom', () => {
+
+      it('should be a pure delegate to marginBottomProperty', () => {
+        let widget = new Widget();
+        GridPanel.marginBottomProperty.set(widget, 4);
+        expect(GridPanel.getMarginBottom(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.setMarginBottom', () => {
+
+      it('should be a pure delegate to marginBottomProperty', () => {
+        let widget = new Widget();
+        GridPanel.setMarginBottom(widget, 4);
+        expect(GridPanel.marginBottomProperty.get(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.getMarginLeft', () => {
+
+      it('should be a pure delegate to marginLeftProperty', () => {
+        let widget = new Widget();
+        GridPanel.marginLeftProperty.set(widget, 4);
+        expect(GridPanel.getMarginLeft(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.setMarginLeft', () => {
+
+      it('should be a pure delegate to marginLeftProperty', () => {
+        let widget = new Widget();
+        GridPanel.setMarginLeft(widget, 4);
+        expect(GridPanel.marginLeftProperty.get(widget)).to.be(4);
+      });
+
+    });
+
+    describe('.getZIndex', () => {
+
+      it('should be a pure delegate to zIndexProperty', () => {
+        let widget = new Widget();
+        GridPanel.zIndexProperty.set(widget, 3);
+        expect(GridPanel.getZIndex(widget)).to.be(3);
+      });
+
+    });
+
+    describe('.setZIndex', () => {
+
+      it('should be a pure delegate to zIndexProperty', () => {
+        let widget = new Widget();
+        GridPanel.setZIndex(widget, 3);
+        expect(GridPanel.zIndexProperty.get(widget)).to.be(3);
+      });
+
+    });
+
+    describe('#constructor()', () => {
+
+      it('should accept no arguments', () => {
+        let panel = new GridPanel();
+        expect(panel instanceof GridPanel).to.be(true);
+      });
+
+      it('should add `p-GridPanel`', () => {
+        let panel = new GridPanel();
+        expect(panel.hasClass('p-GridPanel')).to.be(true);
+      });
+
+    });
+
+    describe('#dispose()', () => {
+
+      it('should dispose of the resources held by the panel', () => {
+        let panel = new GridPanel();
+        panel.addChild(new Widget());
+        panel.addChild(new Widget());
+        panel.dispose();
+        expect(panel.isDisposed).to.be(true);
+        expect(panel.childCount()).to.be(0);
+      });
+
+    });
+
+    describe('#tracksResized', () => {
+
+      it('should be a pure delegate to the `tracksResizedSignal`', () => {
+        let panel = new GridPanel();
+        expect(panel.tracksResized).to.eql(GridPanel.tracksResizedSignal.bind(panel));
+      });
+
+    });
+
+    describe('#layoutChanged', () => {
+
+      it('should be a pure delegate to the `layoutChangedSignal`', () => {
+        let panel = new GridPanel();
+        expect(panel.layoutChanged).to.eql(GridPanel.layoutChangedSignal.bind(panel));
+      });
+
+    });
+
+    describe('#breakpointFailed', () => {
+
+      it('should be a pure delegate to the `breakpointFailedSignal`', () => {
+        let panel = new GridPanel();
+        expect(panel.breakpointFailed).to.eql(GridPanel.breakpointFailedSignal.bind(panel));
+      });
+
+    });
+
+    describe('#layoutCompleted', () => {
+
+      it('should be a pure delegate to the `layoutCompletedSignal`', () => {
+        let panel = new GridPanel();
+        let signal = GridPanel.layoutCompletedSignal.bind(panel);
+        expect(panel.layoutCompleted).to.eql(signal);
+      });
+
+      it('should be emitted with the final layout of the panel', () => {
+        let panel = createOccupiedPanel();
+        let args: ILayoutCompletedArgs = null;
+        panel.layoutCompleted.connect((sender, value) => { args = value; });
+        panel.columnSpacing = 15;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(args.rowOffsets).to.eql([0, 100]);
+        expect(args.rowSizes).to.eql([100, 100]);
+        expect(args.columnOffsets).to.eql([0, 105, 210]);
+        expect(args.columnSizes).to.eql([90, 90, 90]);
+        expect(args.widgets).to.eql([panel.childAt(0), panel.childAt(1)]);
+        expect(args.rects[1]).to.eql({ top: 100, left: 105, width: 195, height: 100 });
+        panel.dispose();
+      });
+
+      it('should report empty tracks for stacked children', () => {
+        let panel = new GridPanel();
+        let args: ILayoutCompletedArgs = null;
+        panel.layoutCompleted.connect((sender, value) => { args = value; });
+        panel.addChild(new Widget());
+        layoutPanel(panel, 200, 100);
+        expect(args.rowOffsets).to.eql([]);
+        expect(args.columnSizes).to.eql([]);
+        expect(args.rects[0]).to.eql({ top: 0, left: 0, width: 200, height: 100 });
+        panel.dispose();
+      });
+
+      it('should be emitted with the target rects of an animation', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        let args: ILayoutCompletedArgs = null;
+        panel.animationDuration = 50;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [new Spec({ stretch: 0, sizeBasis: 100 }), new Spec()];
+        panel.addChild(child);
+        layoutPanel(panel, 300, 100);
+        panel.layoutCompleted.connect((sender, value) => { args = value; });
+        GridPanel.setColumnSpan(child, 2);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(child.node.offsetWidth).to.be(100);
+        expect(args.rects[0]).to.eql({ top: 0, left: 0, width: 300, height: 100 });
+        panel.dispose();
+      });
+
+    });
+
+    describe('#childMoveRequested', () => {
+
+      it('should be a pure delegate to the `childMoveRequestedSignal`', () => {
+        let panel = new GridPanel();
+        let signal = GridPanel.childMoveRequestedSignal.bind(panel);
+        expect(panel.childMoveRequested).to.eql(signal);
+      });
+
+    });
+
+    describe('#overlapDetected', () => {
+
+      it('should be a pure delegate to the `overlapDetectedSignal`', () => {
+        let panel = new GridPanel();
+        let signal = GridPanel.overlapDetectedSignal.bind(panel);
+        expect(panel.overlapDetected).to.eql(signal);
+      });
+
+      it('should be emitted with the overlapping children', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        let args: IOverlapDetectedArgs = null;
+        panel.overlapDetected.connect((sender, value) => { args = value; });
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(args.widgets.length).to.be(2);
+        expect(args.widgets[0]).to.be(panel.childAt(0));
+        expect(args.widgets[1]).to.be(panel.childAt(2));
+        panel.dispose();
+      });
+
+      it('should detect the overlap of a child clamped to the last track', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        let args: IOverlapDetectedArgs = null;
+        panel.overlapDetected.connect((sender, value) => { args = value; });
+        GridPanel.setColumn(panel.childAt(1), 2);
+        GridPanel.setColumn(panel.childAt(2), 5);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(args.widgets.length).to.be(2);
+        expect(args.widgets[0]).to.be(panel.childAt(1));
+        expect(args.widgets[1]).to.be(panel.childAt(2));
+        panel.dispose();
+      });
+
+      it('should not be emitted when no children overlap', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        let called = false;
+        panel.overlapDetected.connect(() => { called = true; });
+        GridPanel.setColumn(panel.childAt(2), 2);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(called).to.be(false);
+        panel.dispose();
+      });
+
+      it('should detect an auto placed child clamped to the last track', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget()];
+        let args: IOverlapDetectedArgs = null;
+        panel.overlapDetected.connect((sender, value) => { args = value; });
+        children.forEach(child => { GridPanel.setAutoPlace(child, true); });
+        panel.autoFlow = AutoFlow.Row;
+        panel.rowSpecs = createSpecs(1);
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 100);
+        expect(args.widgets).to.eql([children[0], children[2]]);
+        panel.dispose();
+      });
+
+      it('should not be emitted for auto placed children which fit', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget()];
+        let called = false;
+        panel.overlapDetected.connect(() => { called = true; });
+        children.forEach(child => { GridPanel.setAutoPlace(child, true); });
+        panel.autoFlow = AutoFlow.Row;
+        panel.rowSpecs = createSpecs(1);
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 100);
+        expect(called).to.be(false);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#rowSpecs', () => {
+
+      it('should get the row specs for the grid panel', () => {
+        let panel = new GridPanel();
+        expectArraysEqv(panel.rowSpecs, []);
+      });
+
+      it('should set the row specs for the grid panel', () => {
+        let panel = new GridPanel();
+        panel.rowSpecs = [new Spec({ stretch: 4 })];
+        expect(panel.rowSpecs[0].stretch).to.be(4);
+      });
+
+      it('should a pure delegate to the rowSpecsProperty', () => {
+        let panel = new GridPanel();
+        let spec = new Spec({ maxSize: 3 });
+        GridPanel.rowSpecsProperty.set(panel, [spec]);
+        expect(panel.rowSpecs[0].maxSize).to.be(3);
+        panel.rowSpecs = [new Spec({ maxSize: 4 })];
+        let rowSpecs = GridPanel.rowSpecsProperty.get(panel);
+        expect(rowSpecs[0].maxSize).to.be(4);
+      });
+
+    });
+
+    describe('#columnSpecs', () => {
+
+      it('should get the column specs for the grid panel', () => {
+        let panel = new GridPanel();
+        expectArraysEqv(panel.columnSpecs, []);
+      });
+
+      it('should set the column specs for the grid panel', () => {
+        let panel = new GridPanel();
+        panel.columnSpecs = [new Spec({ stretch: 4 })];
+        expect(panel.columnSpecs[0].stretch).to.be(4);
+      });
+
+      it('should a pure delegate to the columnSpecsProperty', () => {
+        let panel = new GridPanel();
+        let spec = new Spec({ maxSize: 3 });
+        GridPanel.columnSpecsProperty.set(panel, [spec]);
+        expect(panel.columnSpecs[0].maxSize).to.be(3);
+        panel.columnSpecs = [new Spec({ maxSize: 4 })];
+        let columnSpecs = GridPanel.columnSpecsProperty.get(panel);
+        expect(columnSpecs[0].maxSize).to.be(4);
+      });
+
+    });
+
+    describe('#autoRowSpec', () => {
+
+      it('should get the implicit row spec for the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.autoRowSpec).to.be(null);
+      });
+
+      it('should set the implicit row spec for the grid panel', () => {
+        let panel = new GridPanel();
+        let spec = new Spec();
+        panel.autoRowSpec = spec;
+        expect(panel.autoRowSpec).to.be(spec);
+      });
+
+      it('should a pure delegate to the autoRowSpecProperty', () => {
+        let panel = new GridPanel();
+        let spec1 = new Spec();
+        let spec2 = new Spec();
+        GridPanel.autoRowSpecProperty.set(panel, spec1);
+        expect(panel.autoRowSpec).to.be(spec1);
+        panel.autoRowSpec = spec2;
+        expect(GridPanel.autoRowSpecProperty.get(panel)).to.be(spec2);
+      });
+
+    });
+
+    describe('#autoColumnSpec', () => {
+
+      it('should get the implicit column spec for the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.autoColumnSpec).to.be(null);
+      });
+
+      it('should set the implicit column spec for the grid panel', () => {
+        let panel = new GridPanel();
+        let spec = new Spec();
+        panel.autoColumnSpec = spec;
+        expect(panel.autoColumnSpec).to.be(spec);
+      });
+
+      it('should a pure delegate to the autoColumnSpecProperty', () => {
+        let panel = new GridPanel();
+        let spec1 = new Spec();
+        let spec2 = new Spec();
+        GridPanel.autoColumnSpecProperty.set(panel, spec1);
+        expect(panel.autoColumnSpec).to.be(spec1);
+        panel.autoColumnSpec = spec2;
+        expect(GridPanel.autoColumnSpecProperty.get(panel)).to.be(spec2);
+      });
+
+    });
+
+    describe('#rowSpacing', () => {
+
+      it('should get the row spacing for the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.rowSpacing).to.be(8);
+      });
+
+      it('should set the row spacing for the grid panel', () => {
+        let panel = new GridPanel();
+        panel.rowSpacing = 4;
+        expect(panel.rowSpacing).to.be(4);
+      });
+
+      it('should a pure delegate to the rowSpacingProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.rowSpacingProperty.set(panel, 4);
+        expect(panel.rowSpacing).to.be(4);
+        panel.rowSpacing = 5;
+        let rowSpacing = GridPanel.rowSpacingProperty.get(panel);
+        expect(rowSpacing).to.be(5);
+      });
+
+    });
+
+    describe('#columnSpacing', () => {
+
+      it('should get the column spacing for the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.columnSpacing).to.be(8);
+      });
+
+      it('should set the column spacing for the grid panel', () => {
+        let panel = new GridPanel();
+        panel.columnSpacing = 4;
+        expect(panel.columnSpacing).to.be(4);
+      });
+
+      it('should a pure delegate to the columnSpacingProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.columnSpacingProperty.set(panel, 4);
+        expect(panel.columnSpacing).to.be(4);
+        panel.columnSpacing = 5;
+        let columnSpacing = GridPanel.columnSpacingProperty.get(panel);
+        expect(columnSpacing).to.be(5);
+      });
+
+    });
+
+    describe('#resizable', () => {
+
+      it('should get whether the grid panel is resizable', () => {
+        let panel = new GridPanel();
+        expect(panel.resizable).to.be(false);
+      });
+
+      it('should set whether the grid panel is resizable', () => {
+        let panel = new GridPanel();
+        panel.resizable = true;
+        expect(panel.resizable).to.be(true);
+      });
+
+      it('should a pure delegate to the resizableProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.resizableProperty.set(panel, true);
+        expect(panel.resizable).to.be(true);
+        panel.resizable = false;
+        let resizable = GridPanel.resizableProperty.get(panel);
+        expect(resizable).to.be(false);
+      });
+
+      it('should add a handle between each pair of tracks', () => {
+        let panel = createResizablePanel();
+        let rows = panel.node.querySelectorAll('.p-GridPanel-handle.p-mod-row');
+        let cols = panel.node.querySelectorAll('.p-GridPanel-handle.p-mod-column');
+        expect(rows.length).to.be(1);
+        expect(cols.length).to.be(1);
+        let handle = cols[0] as HTMLElement;
+        expect(handle.offsetLeft).to.be(100);
+        expect(handle.offsetWidth).to.be(10);
+        expect(handle.offsetHeight).to.be(210);
+        panel.dispose();
+      });
+
+      it('should remove the handles when disabled', () => {
+        let panel = createResizablePanel();
+        panel.resizable = false;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        let handles = panel.node.querySelectorAll('.p-GridPanel-handle');
+        expect(handles.length).to.be(0);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#direction', () => {
+
+      it('should get the column direction of the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.direction).to.be(Direction.Auto);
+      });
+
+      it('should set the column direction of the grid panel', () => {
+        let panel = new GridPanel();
+        panel.direction = Direction.RightToLeft;
+        expect(panel.direction).to.be(Direction.RightToLeft);
+      });
+
+      it('should a pure delegate to the directionProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.directionProperty.set(panel, Direction.LeftToRight);
+        expect(panel.direction).to.be(Direction.LeftToRight);
+        panel.direction = Direction.Auto;
+        let direction = GridPanel.directionProperty.get(panel);
+        expect(direction).to.be(Direction.Auto);
+      });
+
+      it('should mirror the columns for a right-to-left direction', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget()];
+        GridPanel.setColumn(children[1], 1);
+        GridPanel.setColumnSpan(children[1], 2);
+        panel.direction = Direction.RightToLeft;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = createSpecs(3);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 300, 100);
+        expect(children[0].node.offsetLeft).to.be(200);
+        expect(children[1].node.offsetLeft).to.be(0);
+        expect(children[1].node.offsetWidth).to.be(200);
+        panel.dispose();
+      });
+
+      it('should align a size limited stretch child to the right', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.maxWidth = '40px';
+        panel.direction = Direction.RightToLeft;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = createSpecs(2);
+        panel.addChild(child);
+        layoutPanel(panel, 200, 100);
+        expect(child.node.offsetLeft).to.be(160);
+        expect(child.node.offsetWidth).to.be(40);
+        panel.dispose();
+      });
+
+      it('should detect the direction from the computed style', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        panel.node.style.direction = 'rtl';
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = createSpecs(2);
+        panel.addChild(child);
+        layoutPanel(panel, 200, 100);
+        expect(child.node.offsetLeft).to.be(100);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#animationDuration', () => {
+
+      it('should get the animation duration of the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.animationDuration).to.be(0);
+      });
+
+      it('should set the animation duration of the grid panel', () => {
+        let panel = new GridPanel();
+        panel.animationDuration = 200;
+        expect(panel.animationDuration).to.be(200);
+      });
+
+      it('should a pure delegate to the animationDurationProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.animationDurationProperty.set(panel, 100);
+        expect(panel.animationDuration).to.be(100);
+        panel.animationDuration = 0;
+        let duration = GridPanel.animationDurationProperty.get(panel);
+        expect(duration).to.be(0);
+      });
+
+      it('should animate the children to their new geometry', (done) => {
+        let panel = new GridPanel();
+        let child = new LogWidget();
+        panel.animationDuration = 50;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [new Spec({ stretch: 0, sizeBasis: 100 }), new Spec()];
+        panel.addChild(child);
+        layoutPanel(panel, 300, 100);
+        expectCell(child, 0, 0);
+        child.messages = [];
+        GridPanel.setColumnSpan(child, 2);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(child.node.offsetWidth).to.be(100);
+        setTimeout(() => {
+          expect(child.node.offsetWidth).to.be(300);
+          expect(child.messages.filter(m => m === 'resize').length).to.be(1);
+          panel.dispose();
+          done();
+        }, 200);
+      });
+
+      it('should move the children immediately when disabled', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = createSpecs(2);
+        panel.addChild(child);
+        layoutPanel(panel, 200, 100);
+        GridPanel.setColumn(child, 1);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expectCell(child, 0, 1);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#draggable', () => {
+
+      it('should get whether the children are draggable', () => {
+        let panel = new GridPanel();
+        expect(panel.draggable).to.be(false);
+      });
+
+      it('should set whether the children are draggable', () => {
+        let panel = new GridPanel();
+        panel.draggable = true;
+        expect(panel.draggable).to.be(true);
+      });
+
+      it('should a pure delegate to the draggableProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.draggableProperty.set(panel, true);
+        expect(panel.draggable).to.be(true);
+        panel.draggable = false;
+        let draggable = GridPanel.draggableProperty.get(panel);
+        expect(draggable).to.be(false);
+      });
+
+      it('should move a child to the cell on which it is dropped', () => {
+        let panel = createDraggablePanel();
+        let child = panel.childAt(0);
+        let args: IChildMoveRequestedArgs = null;
+        panel.childMoveRequested.connect((sender, value) => { args = value; });
+        triggerMouseEvent(child.node, 'mousedown', 50, 50);
+        triggerMouseEvent(document.body, 'mousemove', 150, 150);
+        let indicator = panel.node.querySelector('.p-GridPanel-dropIndicator') as HTMLElement;
+        expect(indicator.offsetLeft).to.be(100);
+        expect(indicator.offsetTop).to.be(100);
+        expect(child.hasClass('p-mod-dragging')).to.be(true);
+        triggerMouseEvent(document.body, 'mouseup', 150, 150);
+        expect(args.widget).to.be(child);
+        expect(args.fromRow).to.be(0);
+        expect(args.fromColumn).to.be(0);
+        expect(args.row).to.be(1);
+        expect(args.column).to.be(1);
+        expect(GridPanel.getRow(child)).to.be(1);
+        expect(GridPanel.getColumn(child)).to.be(1);
+        expect(child.hasClass('p-mod-dragging')).to.be(false);
+        expect(panel.node.querySelector('.p-GridPanel-dropIndicator')).to.be(null);
+        panel.dispose();
+      });
+
+      it('should not move the child when the move is cancelled', () => {
+        let panel = createDraggablePanel();
+        let child = panel.childAt(0);
+        panel.childMoveRequested.connect((sender, args) => { args.cancel = true; });
+        triggerMouseEvent(child.node, 'mousedown', 50, 50);
+        triggerMouseEvent(document.body, 'mousemove', 150, 50);
+        triggerMouseEvent(document.body, 'mouseup', 150, 50);
+        expect(GridPanel.getColumn(child)).to.be(0);
+        panel.dispose();
+      });
+
+      it('should render the drop indicator above the children', () => {
+        let panel = createDraggablePanel();
+        let child = panel.childAt(0);
+        GridPanel.setZIndex(child, 3);
+        triggerMouseEvent(child.node, 'mousedown', 50, 50);
+        triggerMouseEvent(document.body, 'mousemove', 150, 150);
+        let indicator = panel.node.querySelector('.p-GridPanel-dropIndicator') as HTMLElement;
+        expect(indicator.style.zIndex).to.be('4');
+        triggerMouseEvent(document.body, 'mouseup', 150, 150);
+        panel.dispose();
+      });
+
+      it('should cancel the drag when `Escape` is pressed', () => {
+        let panel = createDraggablePanel();
+        let child = panel.childAt(0);
+        let called = false;
+        panel.childMoveRequested.connect(() => { called = true; });
+        triggerMouseEvent(child.node, 'mousedown', 50, 50);
+        triggerMouseEvent(document.body, 'mousemove', 150, 150);
+        triggerKeyEvent(document.body, 'keydown', 27);
+        triggerMouseEvent(document.body, 'mouseup', 150, 150);
+        expect(called).to.be(false);
+        expect(GridPanel.getRow(child)).to.be(0);
+        expect(child.hasClass('p-mod-dragging')).to.be(false);
+        expect(panel.node.querySelector('.p-GridPanel-dropIndicator')).to.be(null);
+        panel.dispose();
+      });
+
+      it('should not start a drag below the drag threshold', () => {
+        let panel = createDraggablePanel();
+        let child = panel.childAt(0);
+        let called = false;
+        panel.childMoveRequested.connect(() => { called = true; });
+        triggerMouseEvent(child.node, 'mousedown', 50, 50);
+        triggerMouseEvent(document.body, 'mousemove', 52, 52);
+        triggerMouseEvent(document.body, 'mouseup', 52, 52);
+        expect(called).to.be(false);
+        expect(panel.node.querySelector('.p-GridPanel-dropIndicator')).to.be(null);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#collapseHidden', () => {
+
+      it('should get whether the tracks with only hidden children collapse', () => {
+        let panel = new GridPanel();
+        expect(panel.collapseHidden).to.be(false);
+      });
+
+      it('should set whether the tracks with only hidden children collapse', () => {
+        let panel = new GridPanel();
+        panel.collapseHidden = true;
+        expect(panel.collapseHidden).to.be(true);
+      });
+
+      it('should a pure delegate to the collapseHiddenProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.collapseHiddenProperty.set(panel, true);
+        expect(panel.collapseHidden).to.be(true);
+        panel.collapseHidden = false;
+        let collapseHidden = GridPanel.collapseHiddenProperty.get(panel);
+        expect(collapseHidden).to.be(false);
+      });
+
+      it('should collapse a track which contains only hidden children', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        panel.collapseHidden = true;
+        panel.childAt(0).hide();
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(child.node.offsetTop).to.be(0);
+        expect(child.node.offsetHeight).to.be(200);
+        expect(child.node.offsetLeft).to.be(0);
+        expect(child.node.offsetWidth).to.be(300);
+        panel.dispose();
+      });
+
+      it('should not collapse a track which contains no children', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        GridPanel.setColumnSpan(child, 1);
+        panel.collapseHidden = true;
+        panel.childAt(0).hide();
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(child.node.offsetLeft).to.be(0);
+        expect(child.node.offsetWidth).to.be(150);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#overlapPolicy', () => {
+
+      it('should get the overlap policy of the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.overlapPolicy).to.be(OverlapPolicy.Allow);
+      });
+
+      it('should set the overlap policy of the grid panel', () => {
+        let panel = new GridPanel();
+        panel.overlapPolicy = OverlapPolicy.Displace;
+        expect(panel.overlapPolicy).to.be(OverlapPolicy.Displace);
+      });
+
+      it('should a pure delegate to the overlapPolicyProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.overlapPolicyProperty.set(panel, OverlapPolicy.Warn);
+        expect(panel.overlapPolicy).to.be(OverlapPolicy.Warn);
+        panel.overlapPolicy = OverlapPolicy.Error;
+        let policy = GridPanel.overlapPolicyProperty.get(panel);
+        expect(policy).to.be(OverlapPolicy.Error);
+      });
+
+      it('should throw an error from the placement for the `Error` policy', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Error);
+        let child = panel.childAt(2);
+        expect(() => { GridPanel.setColumn(child, 2); }).to.not.throwError();
+        expect(() => { GridPanel.setColumn(child, 1); }).to.throwError(/overlap/);
+        expect(GridPanel.getColumn(child)).to.be(1);
+        panel.dispose();
+      });
+
+      it('should not throw an error from a layout request for the `Error` policy', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Error);
+        let count = 0;
+        panel.overlapDetected.connect(() => { count++; });
+        let msg = Widget.MsgLayoutRequest;
+        expect(() => { panel.processMessage(msg); }).to.not.throwError();
+        expect(count).to.be(1);
+        panel.dispose();
+      });
+
+      it('should throw an error from `restoreState` for the `Error` policy', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Error);
+        let child = panel.childAt(2);
+        child.id = 'child';
+        GridPanel.setColumn(child, 2);
+        let state = panel.saveState();
+        state.children[0].column = 1;
+        expect(() => { panel.restoreState(state); }).to.throwError(/overlap/);
+        expect(GridPanel.getColumn(child)).to.be(1);
+        panel.dispose();
+      });
+
+      it('should not throw an error while shifting the tracks', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Error);
+        GridPanel.setColumn(panel.childAt(2), 2);
+        expect(() => { panel.insertColumn(0); }).to.not.throwError();
+        expect(() => { panel.moveColumn(3, 1); }).to.not.throwError();
+        expect(GridPanel.getColumn(panel.childAt(0))).to.be(2);
+        expect(GridPanel.getColumn(panel.childAt(1))).to.be(3);
+        expect(GridPanel.getColumn(panel.childAt(2))).to.be(1);
+        panel.dispose();
+      });
+
+      it('should displace overlapping children for the `Displace` policy', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Displace);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.cellsOf(panel.childAt(0)).column).to.be(0);
+        expect(panel.cellsOf(panel.childAt(2)).column).to.be(2);
+        expect(GridPanel.getColumn(panel.childAt(2))).to.be(0);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#templateAreas', () => {
+
+      it('should get the template areas for the grid panel', () => {
+        let panel = new GridPanel();
+        expectArraysEqv(panel.templateAreas, []);
+      });
+
+      it('should set the template areas for the grid panel', () => {
+        let panel = new GridPanel();
+        let template = ['a b'];
+        panel.templateAreas = template;
+        expectArraysEqv(panel.templateAreas, template);
+      });
+
+      it('should a pure delegate to the templateAreasProperty', () => {
+        let panel = new GridPanel();
+        let template1 = ['a b'];
+        let template2 = ['a', 'b'];
+        GridPanel.templateAreasProperty.set(panel, template1);
+        expectArraysEqv(panel.templateAreas, template1);
+        panel.templateAreas = template2;
+        expectArraysEqv(GridPanel.templateAreasProperty.get(panel), template2);
+      });
+
+    });
+
+    describe('#breakpoints', () => {
+
+      it('should get the breakpoints for the grid panel', () => {
+        let panel = new GridPanel();
+        expectArraysEqv(panel.breakpoints, []);
+      });
+
+      it('should set the breakpoints for the grid panel', () => {
+        let panel = new GridPanel();
+        let breakpoints = [createBreakpoint('a', 0, 1)];
+        panel.breakpoints = breakpoints;
+        expectArraysEqv(panel.breakpoints, breakpoints);
+      });
+
+      it('should a pure delegate to the breakpointsProperty', () => {
+        let panel = new GridPanel();
+        let breakpoints1 = [createBreakpoint('a', 0, 1)];
+        let breakpoints2 = [createBreakpoint('b', 0, 2)];
+        GridPanel.breakpointsProperty.set(panel, breakpoints1);
+        expectArraysEqv(panel.breakpoints, breakpoints1);
+        panel.breakpoints = breakpoints2;
+        expectArraysEqv(GridPanel.breakpointsProperty.get(panel), breakpoints2);
+      });
+
+      it('should switch layouts when the size crosses a breakpoint', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        let narrow = createBreakpoint('narrow', 0, 1);
+        let wide = createBreakpoint('wide', 300, 3);
+        wide.state.children[0].column = 2;
+        let names: string[] = [];
+        panel.layoutChanged.connect((sender, bp) => { names.push(bp.name); });
+        panel.breakpoints = [narrow, wide];
+        panel.addChild(child);
+        layoutPanel(panel, 300, 100);
+        expect(panel.activeBreakpoint).to.be(wide);
+        expect(panel.columnSpecs.length).to.be(3);
+        expectCell(child, 0, 2);
+        layoutPanel(panel, 100, 100);
+        expect(panel.activeBreakpoint).to.be(narrow);
+        expect(panel.columnSpecs.length).to.be(1);
+        expect(GridPanel.getColumn(child)).to.be(0);
+        expectCell(child, 0, 0);
+        expectArraysEqv(names, ['wide', 'narrow']);
+        panel.dispose();
+      });
+
+      it('should skip a breakpoint state which cannot be restored', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        let narrow = createBreakpoint('narrow', 0, 1);
+        let wide = createBreakpoint('wide', 300, 3);
+        let names: string[] = [];
+        let failures: IBreakpointFailedArgs[] = [];
+        panel.layoutChanged.connect((sender, bp) => { names.push(bp.name); });
+        panel.breakpointFailed.connect((sender, args) => { failures.push(args); });
+        panel.breakpoints = [narrow, wide];
+        panel.addChild(child);
+        panel.addChild(new Widget());
+        layoutPanel(panel, 100, 100);
+        expect(panel.activeBreakpoint).to.be(narrow);
+        expect(failures.length).to.be(0);
+        child.remove();
+        layoutPanel(panel, 300, 100);
+        expect(panel.activeBreakpoint).to.be(wide);
+        expect(panel.columnSpecs.length).to.be(1);
+        expect(() => { sendMessage(panel, Widget.MsgUpdateRequest); }).to.not.throwError();
+        expectArraysEqv(names, ['narrow']);
+        expect(failures.length).to.be(1);
+        expect(failures[0].breakpoint).to.be(wide);
+        expect(failures[0].error instanceof Error).to.be(true);
+        panel.dispose();
+        child.dispose();
+      });
+
+      it('should not change the layout when no breakpoint matches', () => {
+        let panel = new GridPanel();
+        let called = false;
+        panel.layoutChanged.connect(() => { called = true; });
+        panel.rowSpecs = createSpecs(2);
+        panel.breakpoints = [createBreakpoint('wide', 500, 3)];
+        panel.addChild(new Widget());
+        layoutPanel(panel, 100, 100);
+        expect(panel.activeBreakpoint).to.be(null);
+        expect(panel.rowSpecs.length).to.be(2);
+        expect(called).to.be(false);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#autoFlow', () => {
+
+      it('should get the auto flow mode for the grid panel', () => {
+        let panel = new GridPanel();
+        expect(panel.autoFlow).to.be(AutoFlow.None);
+      });
+
+      it('should set the auto flow mode for the grid panel', () => {
+        let panel = new GridPanel();
+        panel.autoFlow = AutoFlow.Column;
+        expect(panel.autoFlow).to.be(AutoFlow.Column);
+      });
+
+      it('should a pure delegate to the autoFlowProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.autoFlowProperty.set(panel, AutoFlow.Row);
+        expect(panel.autoFlow).to.be(AutoFlow.Row);
+        panel.autoFlow = AutoFlow.RowDense;
+        let autoFlow = GridPanel.autoFlowProperty.get(panel);
+        expect(autoFlow).to.be(AutoFlow.RowDense);
+      });
+
+    });
+
+    describe('#debug', () => {
+
+      it('should get whether the grid panel renders a debug overlay', () => {
+        let panel = new GridPanel();
+        expect(panel.debug).to.be(false);
+      });
+
+      it('should set whether the grid panel renders a debug overlay', () => {
+        let panel = new GridPanel();
+        panel.debug = true;
+        expect(panel.debug).to.be(true);
+      });
+
+      it('should a pure delegate to the debugProperty', () => {
+        let panel = new GridPanel();
+        GridPanel.debugProperty.set(panel, true);
+        expect(panel.debug).to.be(true);
+        panel.debug = false;
+        let debug = GridPanel.debugProperty.get(panel);
+        expect(debug).to.be(false);
+      });
+
+      it('should draw the tracks, gutters and cells of the grid', () => {
+        let panel = createOccupiedPanel();
+        panel.rowSpacing = 10;
+        panel.columnSpacing = 10;
+        panel.debug = true;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let overlay = panel.node.querySelector('.p-GridPanel-debug');
+        expect(overlay).to.be.ok();
+        let rows = overlay.querySelectorAll('.p-GridPanel-debugTrack.p-mod-row');
+        let cols = overlay.querySelectorAll('.p-GridPanel-debugTrack.p-mod-column');
+        let gutters = overlay.querySelectorAll('.p-GridPanel-debugGutter');
+        let cells = overlay.querySelectorAll('.p-GridPanel-debugCell');
+        expect(rows.length).to.be(2);
+        expect(cols.length).to.be(3);
+        expect(gutters.length).to.be(3);
+        expect(cells.length).to.be(6);
+        expect(cells[5].textContent).to.be('1,2');
+        expect(rows[0].textContent).to.be('Row 0: 0 / 0 / \u221E = 95');
+        panel.dispose();
+      });
+
+      it('should highlight a child which does not fill its cell', () => {
+        let panel = createOccupiedPanel();
+        panel.childAt(1).node.style.maxWidth = '50px';
+        panel.debug = true;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let nodes = panel.node.querySelectorAll('.p-GridPanel-debugChild');
+        expect(nodes.length).to.be(1);
+        let node = nodes[0] as HTMLElement;
+        expect(node.offsetLeft).to.be(100);
+        expect(node.offsetWidth).to.be(50);
+        panel.dispose();
+      });
+
+      it('should reuse the overlay nodes between layouts', () => {
+        let panel = createOccupiedPanel();
+        panel.debug = true;
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let overlay = panel.node.querySelector('.p-GridPanel-debug');
+        let first = overlay.firstChild;
+        let count = overlay.childNodes.length;
+        panel.rowSpecs = createSpecs(1);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(overlay.firstChild).to.be(first);
+        expect(overlay.childNodes.length).to.be.lessThan(count);
+        panel.dispose();
+      });
+
+      it('should stack the overlay above the children', () => {
+        let panel = createOccupiedPanel();
+        GridPanel.setZIndex(panel.childAt(1), 5);
+        panel.debug = true;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        let overlay = panel.node.querySelector('.p-GridPanel-debug') as HTMLElement;
+        expect(overlay.style.zIndex).to.be('6');
+        panel.dispose();
+      });
+
+      it('should remove the overlay when disabled', () => {
+        let panel = createOccupiedPanel();
+        panel.debug = true;
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(panel.node.querySelector('.p-GridPanel-debug')).to.be.ok();
+        panel.debug = false;
+        expect(panel.node.querySelector('.p-GridPanel-debug')).to.be(null);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#saveState()', () => {
+
+      it('should save the specs and spacing of the panel', () => {
+        let panel = new GridPanel();
+        panel.rowSpacing = 2;
+        panel.columnSpacing = 3;
+        panel.rowSpecs = [new Spec({ sizeBasis: 10, maxSize: 20 })];
+        panel.columnSpecs = [new Spec({ minSize: 5, sizing: Sizing.Auto })];
+        let state = panel.saveState();
+        expect(state.rowSpacing).to.be(2);
+        expect(state.columnSpacing).to.be(3);
+        expect(state.rowSpecs).to.eql([
+          { sizeBasis: 10, minSize: 0, maxSize: 20, stretch: 1, sizing: Sizing.Fixed }
+        ]);
+        expect(state.columnSpecs).to.eql([
+          { sizeBasis: 0, minSize: 5, stretch: 1, sizing: Sizing.Auto }
+        ]);
+      });
+
+      it('should save the placement of the keyed children', () => {
+        let panel = new GridPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        child0.id = 'child0';
+        GridPanel.setRow(child0, 1);
+        GridPanel.setColumnSpan(child0, 2);
+        panel.addChild(child0);
+        panel.addChild(child1);
+        let state = panel.saveState();
+        expect(state.children).to.eql([
+          {
+            key: 'child0', row: 1, column: 0, rowSpan: 1, columnSpan: 2,
+            area: '', autoPlace: false
+          }
+        ]);
+      });
+
+      it('should save the auto flow mode and implicit specs', () => {
+        let panel = new GridPanel();
+        panel.autoFlow = AutoFlow.Column;
+        panel.autoColumnSpec = new Spec({ sizeBasis: 10 });
+        let state = panel.saveState();
+        expect(state.autoFlow).to.be(AutoFlow.Column);
+        expect(state.autoRowSpec).to.be(null);
+        expect(state.autoColumnSpec).to.eql(
+          { sizeBasis: 10, minSize: 0, stretch: 1, sizing: Sizing.Fixed }
+        );
+      });
+
+      it('should produce a state which survives JSON', () => {
+        let panel = new GridPanel();
+        panel.rowSpecs = [new Spec()];
+        let state = panel.saveState();
+        expect(JSON.parse(JSON.stringify(state))).to.eql(state);
+      });
+
+      it('should accept a custom key function', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.addClass('foo');
+        panel.addChild(child);
+        let state = panel.saveState(widget => widget.node.className);
+        expect(state.children[0].key).to.be(child.node.className);
+      });
+
+      it('should throw an error for duplicate keys', () => {
+        let panel = new GridPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        child0.id = 'child';
+        child1.id = 'child';
+        panel.addChild(child0);
+        panel.addChild(child1);
+        expect(() => panel.saveState()).to.throwError();
+      });
+
+    });
+
+    describe('#restoreState()', () => {
+
+      it('should restore a saved state', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        panel.addChild(child);
+        panel.rowSpacing = 2;
+        panel.rowSpecs = [new Spec(), new Spec({ minSize: 20 })];
+        panel.columnSpecs = [new Spec({ maxSize: 40 })];
+        GridPanel.setRow(child, 1);
+        let state = JSON.parse(JSON.stringify(panel.saveState()));
+        panel.rowSpacing = 8;
+        panel.rowSpecs = [];
+        panel.columnSpecs = [];
+        GridPanel.setRow(child, 0);
+        panel.restoreState(state);
+        expect(panel.rowSpacing).to.be(2);
+        expect(panel.rowSpecs.length).to.be(2);
+        expect(panel.rowSpecs[1].minSize).to.be(20);
+        expect(panel.columnSpecs[0].maxSize).to.be(40);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(0);
+        expect(GridPanel.getRow(child)).to.be(1);
+      });
+
+      it('should restore the template areas', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        panel.addChild(child);
+        panel.templateAreas = ['a b'];
+        GridPanel.setArea(child, 'b');
+        let state = panel.saveState();
+        panel.templateAreas = [];
+        GridPanel.setArea(child, '');
+        panel.restoreState(state);
+        expectArraysEqv(panel.templateAreas, ['a b']);
+        expect(GridPanel.getArea(child)).to.be('b');
+      });
+
+      it('should restore the auto flow mode and implicit specs', () => {
+        let panel = new GridPanel();
+        panel.autoFlow = AutoFlow.RowDense;
+        panel.autoRowSpec = new Spec({ minSize: 20 });
+        let state = JSON.parse(JSON.stringify(panel.saveState()));
+        panel.autoFlow = AutoFlow.None;
+        panel.autoRowSpec = null;
+        panel.autoColumnSpec = new Spec();
+        panel.restoreState(state);
+        expect(panel.autoFlow).to.be(AutoFlow.RowDense);
+        expect(panel.autoRowSpec.minSize).to.be(20);
+        expect(panel.autoColumnSpec).to.be(null);
+      });
+
+      it('should restore the auto placement flags of the children', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        panel.addChild(child);
+        GridPanel.setAutoPlace(child, true);
+        let state = panel.saveState();
+        GridPanel.setAutoPlace(child, false);
+        panel.restoreState(state);
+        expect(GridPanel.getAutoPlace(child)).to.be(true);
+      });
+
+      it('should throw an error for invalid template areas', () => {
+        let panel = new GridPanel();
+        let state = panel.saveState();
+        state.templateAreas = ['a b a'];
+        expect(() => panel.restoreState(state)).to.throwError();
+        expectArraysEqv(panel.templateAreas, []);
+      });
+
+      it('should throw an error for an unknown key', () => {
+        let panel = new GridPanel();
+        let state = panel.saveState();
+        state.children.push({ key: 'foo', row: 0, column: 0, rowSpan: 1, columnSpan: 1 });
+        expect(() => panel.restoreState(state)).to.throwError(/foo/);
+      });
+
+      it('should throw an error for an out-of-range placement', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        panel.addChild(child);
+        panel.rowSpecs = [new Spec(), new Spec()];
+        panel.columnSpecs = [new Spec()];
+        let state = panel.saveState();
+        state.children[0].row = 1;
+        state.children[0].rowSpan = 2;
+        expect(() => panel.restoreState(state)).to.throwError(/row/);
+        state.children[0].rowSpan = 1;
+        state.children[0].column = -1;
+        expect(() => panel.restoreState(state)).to.throwError(/column/);
+      });
+
+      it('should allow placements beyond the last implicit track', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.id = 'child';
+        panel.addChild(child);
+        panel.autoRowSpec = new Spec();
+        panel.rowSpecs = createSpecs(1);
+        let state = panel.saveState();
+        state.children[0].row = 3;
+        panel.restoreState(state);
+        expect(GridPanel.getRow(child)).to.be(3);
+      });
+
+      it('should not modify the panel when validation fails', () => {
+        let panel = new GridPanel();
+        let state = panel.saveState();
+        state.rowSpacing = 1;
+        state.children.push({ key: 'foo', row: 0, column: 0, rowSpan: 1, columnSpan: 1 });
+        expect(() => panel.restoreState(state)).to.throwError();
+        expect(panel.rowSpacing).to.be(8);
+      });
+
+    });
+
+    describe('#widgetAt()', () => {
+
+      it('should return the child which occupies the cell', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.widgetAt(0, 0)).to.be(panel.childAt(0));
+        expect(panel.widgetAt(1, 1)).to.be(panel.childAt(1));
+        expect(panel.widgetAt(1, 2)).to.be(panel.childAt(1));
+        panel.dispose();
+      });
+
+      it('should return `null` for a free cell', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.widgetAt(0, 2)).to.be(null);
+        expect(panel.widgetAt(5, 5)).to.be(null);
+        panel.dispose();
+      });
+
+      it('should return the last child for a shared cell', () => {
+        let panel = createOccupiedPanel();
+        let child = new Widget();
+        GridPanel.setRow(child, 1);
+        GridPanel.setColumn(child, 2);
+        panel.addChild(child);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.widgetAt(1, 2)).to.be(child);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#cellsOf()', () => {
+
+      it('should return the cells occupied by a child', () => {
+        let panel = createOccupiedPanel();
+        let cell = panel.cellsOf(panel.childAt(1));
+        expect(cell.row).to.be(1);
+        expect(cell.column).to.be(1);
+        expect(cell.rowSpan).to.be(1);
+        expect(cell.columnSpan).to.be(2);
+        panel.dispose();
+      });
+
+      it('should return `null` for a widget which is not a child', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.cellsOf(new Widget())).to.be(null);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#cellRect()', () => {
+
+      it('should return the rect of the cells occupied by a child', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        GridPanel.setMarginLeft(child, 10);
+        GridPanel.setHorizontalAlignment(child, Alignment.Center);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        let rect = panel.cellRect(child);
+        expect(rect).to.eql({ top: 100, left: 100, width: 200, height: 100 });
+        panel.dispose();
+      });
+
+      it('should return `null` for a widget which is not a child', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.cellRect(new Widget())).to.be(null);
+        panel.dispose();
+      });
+
+      it('should return `null` if the children are stacked', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        panel.addChild(child);
+        layoutPanel(panel, 200, 200);
+        expect(panel.cellRect(child)).to.be(null);
+        panel.dispose();
+      });
+
+      it('should return `null` if the panel has not been laid out', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(2);
+        panel.addChild(child);
+        expect(panel.cellRect(child)).to.be(null);
+      });
+
+    });
+
+    describe('#rowOffsets()', () => {
+
+      it('should return the row offsets of the most recent layout', () => {
+        let panel = createOccupiedPanel();
+        panel.rowSpacing = 10;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.rowOffsets()).to.eql([0, 105]);
+        panel.dispose();
+      });
+
+      it('should return an empty array if the children are stacked', () => {
+        let panel = new GridPanel();
+        panel.addChild(new Widget());
+        layoutPanel(panel, 200, 200);
+        expect(panel.rowOffsets()).to.eql([]);
+        panel.dispose();
+      });
+
+      it('should return an empty array if the panel has not been laid out', () => {
+        let panel = new GridPanel();
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(2);
+        expect(panel.rowOffsets()).to.eql([]);
+      });
+
+      it('should keep the geometry of the most recent layout while hidden', () => {
+        let panel = createOccupiedPanel();
+        panel.hide();
+        panel.rowSpacing = 10;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.rowOffsets()).to.eql([0, 100]);
+        expect(panel.rowSizes()).to.eql([100, 100]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#rowSizes()', () => {
+
+      it('should return the row sizes of the most recent layout', () => {
+        let panel = createOccupiedPanel();
+        panel.rowSpacing = 10;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.rowSizes()).to.eql([95, 95]);
+        panel.dispose();
+      });
+
+      it('should return a new array', () => {
+        let panel = createOccupiedPanel();
+        let sizes = panel.rowSizes();
+        sizes[0] = 0;
+        expect(panel.rowSizes()).to.eql([100, 100]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#columnOffsets()', () => {
+
+      it('should return the column offsets of the most recent layout', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.columnOffsets()).to.eql([0, 100, 200]);
+        panel.dispose();
+      });
+
+      it('should mirror the offsets for a right-to-left layout', () => {
+        let panel = createOccupiedPanel();
+        panel.direction = Direction.RightToLeft;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.columnOffsets()).to.eql([200, 100, 0]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#columnSizes()', () => {
+
+      it('should return the column sizes of the most recent layout', () => {
+        let panel = createOccupiedPanel();
+        panel.columnSpecs[0].collapsed = true;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.columnSizes()).to.eql([0, 150, 150]);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#freeCells()', () => {
+
+      it('should return the free cells in row-major order', () => {
+        let panel = createOccupiedPanel();
+        let cells = panel.freeCells();
+        expect(cells.map(c => c.row + ',' + c.column)).to.eql(['0,1', '0,2', '1,0']);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#hitTest()', () => {
+
+      it('should return the cell at a client position', () => {
+        let panel = createOccupiedPanel();
+        let cell = panel.hitTest(150, 60);
+        expect(cell.row).to.be(0);
+        expect(cell.column).to.be(1);
+        cell = panel.hitTest(250, 160);
+        expect(cell.row).to.be(1);
+        expect(cell.column).to.be(2);
+        panel.dispose();
+      });
+
+      it('should return `null` for a position in the spacing', () => {
+        let panel = createOccupiedPanel();
+        panel.columnSpacing = 10;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.hitTest(100, 50)).to.be(null);
+        panel.dispose();
+      });
+
+      it('should return `null` for a position outside the panel', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.hitTest(500, 50)).to.be(null);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#bringToFront()', () => {
+
+      it('should raise the child above the other children', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        GridPanel.setZIndex(panel.childAt(2), 2);
+        panel.bringToFront(panel.childAt(0));
+        expect(GridPanel.getZIndex(panel.childAt(0))).to.be(3);
+        expect(panel.widgetAt(0, 0)).to.be(panel.childAt(0));
+        panel.dispose();
+      });
+
+      it('should apply the `z-index` style to the child', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        panel.bringToFront(panel.childAt(0));
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.childAt(0).node.style.zIndex).to.be('1');
+        expect(panel.childAt(2).node.style.zIndex).to.be('');
+        panel.dispose();
+      });
+
+      it('should not change a child which is already on top', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        GridPanel.setZIndex(panel.childAt(0), 5);
+        panel.bringToFront(panel.childAt(0));
+        expect(GridPanel.getZIndex(panel.childAt(0))).to.be(5);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#sendToBack()', () => {
+
+      it('should lower the child below the other children', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        panel.sendToBack(panel.childAt(2));
+        expect(GridPanel.getZIndex(panel.childAt(2))).to.be(-1);
+        expect(panel.widgetAt(0, 0)).to.be(panel.childAt(0));
+        panel.dispose();
+      });
+
+      it('should keep the child in front of the panel background', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Allow);
+        panel.sendToBack(panel.childAt(2));
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(window.getComputedStyle(panel.node).zIndex).to.be('0');
+        expect(panel.childAt(2).node.style.zIndex).to.be('-1');
+        panel.dispose();
+      });
+
+      it('should be a no-op for a widget which is not a child', () => {
+        let panel = new GridPanel();
+        let widget = new Widget();
+        panel.sendToBack(widget);
+        expect(GridPanel.getZIndex(widget)).to.be(0);
+      });
+
+    });
+
+    describe('#insertRow()', () => {
+
+      it('should insert a spec and move the children below it', () => {
+        let panel = createOccupiedPanel();
+        let spec = new Spec();
+        panel.insertRow(1, spec);
+        expect(panel.rowSpecs.length).to.be(3);
+        expect(panel.rowSpecs[1]).to.be(spec);
+        expect(GridPanel.getRow(panel.childAt(0))).to.be(0);
+        expect(GridPanel.getRow(panel.childAt(1))).to.be(2);
+        panel.dispose();
+      });
+
+      it('should grow the children which span the index', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        GridPanel.setRowSpan(child, 2);
+        panel.insertRow(1);
+        expect(GridPanel.getRow(child)).to.be(0);
+        expect(GridPanel.getRowSpan(child)).to.be(3);
+        panel.dispose();
+      });
+
+      it('should not move the auto placed children', () => {
+        let panel = createOccupiedPanel();
+        GridPanel.setRow(panel.childAt(0), 1);
+        GridPanel.setAutoPlace(panel.childAt(0), true);
+        panel.autoFlow = AutoFlow.Row;
+        panel.insertRow(0);
+        expect(GridPanel.getRow(panel.childAt(0))).to.be(1);
+        expect(GridPanel.getRow(panel.childAt(1))).to.be(2);
+        panel.dispose();
+      });
+
+      it('should update the layout in a single pass', (done) => {
+        let panel = new LogPanel();
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(2);
+        panel.addChild(new Widget());
+        panel.attach(document.body);
+        requestAnimationFrame(() => {
+          clearMessageData(panel);
+          panel.insertRow(0);
+          requestAnimationFrame(() => {
+            let count = panel.messages.filter(msg => msg === 'layout-request').length;
+            expect(count).to.be(1);
+            panel.dispose();
+            done();
+          });
+        });
       });
 
     });
 
-    describe('.getRowSpan', () => {
+    describe('#removeRow()', () => {
 
-      it('should return the row span for the given widget', () => {
-        let widget = new Widget();
-        expect(GridPanel.getRowSpan(widget)).to.be(1);
+      it('should remove a spec and move the children below it', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        GridPanel.setRow(child, 2);
+        panel.rowSpecs = createSpecs(3);
+        panel.removeRow(1);
+        expect(panel.rowSpecs.length).to.be(2);
+        expect(GridPanel.getRow(child)).to.be(1);
+        panel.dispose();
       });
 
-      it('should be a pure delegate to rowSpanProperty', () => {
-        let widget = new Widget();
-        GridPanel.rowSpanProperty.set(widget, 2);
-        expect(GridPanel.getRowSpan(widget)).to.be(2);
+      it('should shrink the children which span the index', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        GridPanel.setRowSpan(child, 2);
+        panel.removeRow(1);
+        expect(GridPanel.getRow(child)).to.be(0);
+        expect(GridPanel.getRowSpan(child)).to.be(1);
+        panel.dispose();
       });
 
-    });
-
-    describe('.setRowSpan', () => {
+      it('should return the children placed within the row', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.removeRow(1)).to.eql([panel.childAt(1)]);
+        expect(GridPanel.getRow(panel.childAt(1))).to.be(1);
+        panel.dispose();
+      });
 
-      it('should set the row span for the given widget', () => {
-        let widget = new Widget();
-        GridPanel.setRowSpan(widget, 2);
-        expect(GridPanel.getRowSpan(widget)).to.be(2);
+      it('should keep a child moved onto the first cell explicitly placed', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        GridPanel.setColumn(child, 0);
+        GridPanel.setColumnSpan(child, 1);
+        GridPanel.setAutoPlace(panel.childAt(0), true);
+        panel.autoFlow = AutoFlow.Row;
+        panel.removeRow(0);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(GridPanel.getRow(child)).to.be(0);
+        expect(GridPanel.getColumn(child)).to.be(0);
+        expect(panel.cellsOf(child).row).to.be(0);
+        expect(panel.cellsOf(child).column).to.be(0);
+        expect(panel.cellsOf(panel.childAt(0)).column).to.be(1);
+        panel.dispose();
       });
 
-      it('should be a pure delegate to rowSpanProperty', () => {
-        let widget = new Widget();
-        GridPanel.setRowSpan(widget, 1);
-        expect(GridPanel.rowSpanProperty.get(widget)).to.be(1);
+      it('should be a no-op if the index is out of range', () => {
+        let panel = createOccupiedPanel();
+        expect(panel.removeRow(2)).to.eql([]);
+        expect(panel.rowSpecs.length).to.be(2);
+        panel.dispose();
       });
 
     });
 
-    describe('.getColumnSpan', () => {
+    describe('#moveRow()', () => {
 
-      it('should return the column span for the given widget', () => {
-        let widget = new Widget();
-        expect(GridPanel.getColumnSpan(widget)).to.be(1);
+      it('should move a spec and the children placed in it', () => {
+        let panel = createOccupiedPanel();
+        let specs = panel.rowSpecs;
+        panel.moveRow(1, 0);
+        expect(panel.rowSpecs).to.eql([specs[1], specs[0]]);
+        expect(GridPanel.getRow(panel.childAt(0))).to.be(1);
+        expect(GridPanel.getRow(panel.childAt(1))).to.be(0);
+        panel.dispose();
       });
 
-      it('should be a pure delegate to columnSpanProperty', () => {
-        let widget = new Widget();
-        GridPanel.columnSpanProperty.set(widget, 2);
-        expect(GridPanel.getColumnSpan(widget)).to.be(2);
+      it('should clamp the index to the bounds of the specs', () => {
+        let panel = createOccupiedPanel();
+        panel.moveRow(0, 10);
+        expect(GridPanel.getRow(panel.childAt(0))).to.be(1);
+        expect(GridPanel.getRow(panel.childAt(1))).to.be(0);
+        panel.dispose();
       });
 
     });
 
-    describe('.setColumnSpan', () => {
+    describe('#insertColumn()', () => {
+
+      it('should insert a spec and move the children after it', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        panel.insertColumn(2);
+        expect(panel.columnSpecs.length).to.be(4);
+        expect(GridPanel.getColumn(child)).to.be(1);
+        expect(GridPanel.getColumnSpan(child)).to.be(3);
+        panel.insertColumn(0);
+        expect(GridPanel.getColumn(child)).to.be(2);
+        panel.dispose();
+      });
 
-      it('should set the column span for the given widget', () => {
-        let widget = new Widget();
-        GridPanel.setColumnSpan(widget, 2);
-        expect(GridPanel.getColumnSpan(widget)).to.be(2);
+      it('should keep the auto placed children auto placed', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        GridPanel.setAutoPlace(child, true);
+        panel.autoFlow = AutoFlow.Row;
+        panel.insertColumn(0);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(GridPanel.getColumn(child)).to.be(0);
+        expect(GridPanel.getAutoPlace(child)).to.be(true);
+        expect(panel.cellsOf(child).column).to.be(0);
+        panel.dispose();
       });
 
-      it('should be a pure delegate to columnSpanProperty', () => {
-        let widget = new Widget();
-        GridPanel.setColumnSpan(widget, 1);
-        expect(GridPanel.columnSpanProperty.get(widget)).to.be(1);
+    });
+
+    describe('#removeColumn()', () => {
+
+      it('should remove a spec and shift the children', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        expect(panel.removeColumn(0)).to.eql([panel.childAt(0)]);
+        expect(panel.columnSpecs.length).to.be(2);
+        expect(GridPanel.getColumn(child)).to.be(0);
+        expect(GridPanel.getColumnSpan(child)).to.be(2);
+        panel.removeColumn(1);
+        expect(GridPanel.getColumnSpan(child)).to.be(1);
+        panel.dispose();
       });
 
     });
 
-    describe('#constructor()', () => {
+    describe('#moveColumn()', () => {
 
-      it('should accept no arguments', () => {
-        let panel = new GridPanel();
-        expect(panel instanceof GridPanel).to.be(true);
+      it('should move a spec and the children placed in it', () => {
+        let panel = createOccupiedPanel();
+        let specs = panel.columnSpecs;
+        panel.moveColumn(0, 2);
+        expect(panel.columnSpecs).to.eql([specs[1], specs[2], specs[0]]);
+        expect(GridPanel.getColumn(panel.childAt(0))).to.be(2);
+        expect(GridPanel.getColumn(panel.childAt(1))).to.be(0);
+        panel.dispose();
       });
 
-      it('should add `p-GridPanel`', () => {
-        let panel = new GridPanel();
-        expect(panel.hasClass('p-GridPanel')).to.be(true);
+      it('should not pin the auto placed children', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        GridPanel.setAutoPlace(child, true);
+        panel.autoFlow = AutoFlow.Row;
+        panel.moveColumn(0, 2);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(GridPanel.getColumn(child)).to.be(0);
+        expect(panel.cellsOf(child).column).to.be(0);
+        GridPanel.setColumn(panel.childAt(1), 0);
+        GridPanel.setRow(panel.childAt(1), 0);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.cellsOf(child).column).to.be(2);
+        panel.dispose();
       });
 
     });
 
-    describe('#dispose()', () => {
+    describe('#beginUpdate()', () => {
 
-      it('should dispose of the resources held by the panel', () => {
-        let panel = new GridPanel();
-        panel.addChild(new Widget());
-        panel.addChild(new Widget());
+      it('should defer the layout work for the panel', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        panel.beginUpdate();
+        GridPanel.setRow(child, 1);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(child.node.offsetTop).to.be(0);
+        panel.endUpdate();
+        expect(child.node.offsetTop).to.be(100);
+        panel.dispose();
+      });
+
+      it('should allow batches to be nested', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        panel.beginUpdate();
+        panel.beginUpdate();
+        GridPanel.setRow(child, 1);
+        panel.endUpdate();
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(child.node.offsetTop).to.be(0);
+        panel.endUpdate();
+        expect(child.node.offsetTop).to.be(100);
         panel.dispose();
-        expect(panel.isDisposed).to.be(true);
-        expect(panel.childCount()).to.be(0);
       });
 
     });
 
-    describe('#rowSpecs', () => {
+    describe('#endUpdate()', () => {
 
-      it('should get the row specs for the grid panel', () => {
-        let panel = new GridPanel();
-        expectArraysEqv(panel.rowSpecs, []);
+      it('should run a single layout pass for the batch', (done) => {
+        let panel = new LogPanel();
+        let child = new Widget();
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(2);
+        panel.addChild(child);
+        layoutPanel(panel, 200, 200);
+        clearMessageData(panel);
+        panel.messages = [];
+        panel.beginUpdate();
+        panel.rowSpacing = 5;
+        panel.columnSpacing = 5;
+        GridPanel.setRow(child, 1);
+        GridPanel.setColumn(child, 1);
+        GridPanel.setHorizontalAlignment(child, Alignment.Center);
+        panel.endUpdate();
+        expect(panel.messages).to.eql(['update-request', 'layout-request']);
+        requestAnimationFrame(() => {
+          expect(panel.messages).to.eql(['update-request', 'layout-request']);
+          panel.dispose();
+          done();
+        });
       });
 
-      it('should set the row specs for the grid panel', () => {
-        let panel = new GridPanel();
-        panel.rowSpecs = [new Spec({ stretch: 4 })];
-        expect(panel.rowSpecs[0].stretch).to.be(4);
+      it('should not run a layout pass if none was requested', () => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        clearMessageData(panel);
+        panel.messages = [];
+        panel.beginUpdate();
+        panel.endUpdate();
+        expect(panel.messages).to.eql([]);
+        panel.dispose();
       });
 
-      it('should a pure delegate to the rowSpecsProperty', () => {
-        let panel = new GridPanel();
-        let spec = new Spec({ maxSize: 3 });
-        GridPanel.rowSpecsProperty.set(panel, [spec]);
-        expect(panel.rowSpecs[0].maxSize).to.be(3);
-        panel.rowSpecs = [new Spec({ maxSize: 4 })];
-        let rowSpecs = GridPanel.rowSpecsProperty.get(panel);
-        expect(rowSpecs[0].maxSize).to.be(4);
+      it('should be a no-op if a batch is not active', () => {
+        let panel = new LogPanel();
+        panel.endUpdate();
+        panel.beginUpdate();
+        panel.rowSpacing = 5;
+        panel.endUpdate();
+        panel.endUpdate();
+        expect(panel.messages).to.eql(['layout-request']);
+        panel.dispose();
+      });
+
+      it('should throw an error for overlaps placed during the batch', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Error);
+        let child = panel.childAt(2);
+        GridPanel.setColumn(child, 2);
+        panel.beginUpdate();
+        GridPanel.setColumn(child, 1);
+        GridPanel.setColumn(child, 0);
+        expect(() => { panel.endUpdate(); }).to.throwError(/overlap/);
+        expect(panel.cellsOf(child).column).to.be(0);
+        panel.beginUpdate();
+        GridPanel.setColumn(child, 1);
+        GridPanel.setColumn(child, 2);
+        expect(() => { panel.endUpdate(); }).to.not.throwError();
+        panel.dispose();
       });
 
     });
 
-    describe('#columnSpecs', () => {
+    describe('#batch()', () => {
 
-      it('should get the column specs for the grid panel', () => {
-        let panel = new GridPanel();
-        expectArraysEqv(panel.columnSpecs, []);
+      it('should invoke the function as a batch of updates', () => {
+        let panel = new LogPanel();
+        panel.batch(() => {
+          panel.rowSpacing = 5;
+          sendMessage(panel, Widget.MsgUpdateRequest);
+        });
+        expect(panel.messages).to.eql(['update-request', 'layout-request']);
+        panel.dispose();
       });
 
-      it('should set the column specs for the grid panel', () => {
-        let panel = new GridPanel();
-        panel.columnSpecs = [new Spec({ stretch: 4 })];
-        expect(panel.columnSpecs[0].stretch).to.be(4);
+      it('should end the batch if the function throws', () => {
+        let panel = new LogPanel();
+        expect(() => {
+          panel.batch(() => { throw new Error(); });
+        }).to.throwError();
+        panel.rowSpacing = 5;
+        expect(panel.messages).to.eql([]);
+        panel.dispose();
       });
 
-      it('should a pure delegate to the columnSpecsProperty', () => {
-        let panel = new GridPanel();
-        let spec = new Spec({ maxSize: 3 });
-        GridPanel.columnSpecsProperty.set(panel, [spec]);
-        expect(panel.columnSpecs[0].maxSize).to.be(3);
-        panel.columnSpecs = [new Spec({ maxSize: 4 })];
-        let columnSpecs = GridPanel.columnSpecsProperty.get(panel);
-        expect(columnSpecs[0].maxSize).to.be(4);
+      it('should not mask the error of the function', () => {
+        let panel = createOverlapPanel(OverlapPolicy.Error);
+        let child = panel.childAt(2);
+        GridPanel.setColumn(child, 2);
+        expect(() => {
+          panel.batch(() => {
+            GridPanel.setColumn(child, 1);
+            throw new Error('failed');
+          });
+        }).to.throwError(/failed/);
+        panel.dispose();
       });
 
     });
 
-    describe('#rowSpacing', () => {
+    describe('#handleEvent()', () => {
 
-      it('should get the row spacing for the grid panel', () => {
-        let panel = new GridPanel();
-        expect(panel.rowSpacing).to.be(8);
+      it('should resize the tracks when a handle is dragged', () => {
+        let panel = createResizablePanel();
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        triggerMouseEvent(document.body, 'mousemove', 130, 0);
+        triggerMouseEvent(document.body, 'mouseup', 130, 0);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(130);
+        expect(panel.columnSpecs[1].sizeBasis).to.be(70);
+        panel.dispose();
       });
 
-      it('should set the row spacing for the grid panel', () => {
-        let panel = new GridPanel();
-        panel.rowSpacing = 4;
-        expect(panel.rowSpacing).to.be(4);
+      it('should mirror the drag direction for right-to-left', () => {
+        let panel = createResizablePanel();
+        panel.direction = Direction.RightToLeft;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        triggerMouseEvent(document.body, 'mousemove', 70, 0);
+        triggerMouseEvent(document.body, 'mouseup', 70, 0);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(130);
+        expect(panel.columnSpecs[1].sizeBasis).to.be(70);
+        panel.dispose();
       });
 
-      it('should a pure delegate to the rowSpacingProperty', () => {
-        let panel = new GridPanel();
-        GridPanel.rowSpacingProperty.set(panel, 4);
-        expect(panel.rowSpacing).to.be(4);
-        panel.rowSpacing = 5;
-        let rowSpacing = GridPanel.rowSpacingProperty.get(panel);
-        expect(rowSpacing).to.be(5);
+      it('should respect the min size of the tracks', () => {
+        let panel = createResizablePanel();
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        triggerMouseEvent(document.body, 'mousemove', 0, 0);
+        triggerMouseEvent(document.body, 'mouseup', 0, 0);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(50);
+        expect(panel.columnSpecs[1].sizeBasis).to.be(150);
+        panel.dispose();
       });
 
-    });
+      it('should keep a percentage basis for percent tracks', () => {
+        let panel = createResizablePanel();
+        panel.columnSpecs[1].sizing = Sizing.Percent;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        triggerMouseEvent(document.body, 'mousemove', 130, 0);
+        triggerMouseEvent(document.body, 'mouseup', 130, 0);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(130);
+        expect(panel.columnSpecs[1].sizeBasis).to.be(35);
+        panel.dispose();
+      });
 
-    describe('#columnSpacing', () => {
+      it('should clear the stretch of the resized tracks', () => {
+        let panel = createResizablePanel();
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        triggerMouseEvent(document.body, 'mousemove', 130, 0);
+        triggerMouseEvent(document.body, 'mouseup', 130, 0);
+        expect(panel.columnSpecs[0].stretch).to.be(0);
+        expect(panel.columnSpecs[1].stretch).to.be(0);
+        expect(panel.rowSpecs[0].stretch).to.be(1);
+        panel.dispose();
+      });
 
-      it('should get the column spacing for the grid panel', () => {
-        let panel = new GridPanel();
-        expect(panel.columnSpacing).to.be(8);
+      it('should restore the specs when `Escape` is pressed', () => {
+        let panel = createResizablePanel();
+        let called = false;
+        panel.tracksResized.connect(() => { called = true; });
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        triggerMouseEvent(document.body, 'mousemove', 130, 0);
+        triggerKeyEvent(document.body, 'keydown', 27);
+        triggerMouseEvent(document.body, 'mouseup', 130, 0);
+        expect(called).to.be(false);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(0);
+        expect(panel.columnSpecs[1].sizeBasis).to.be(0);
+        expect(panel.columnSpecs[0].stretch).to.be(1);
+        expect(panel.columnSpecs[1].stretch).to.be(1);
+        panel.dispose();
       });
 
-      it('should set the column spacing for the grid panel', () => {
-        let panel = new GridPanel();
-        panel.columnSpacing = 4;
-        expect(panel.columnSpacing).to.be(4);
+      it('should emit `tracksResized` when the drag ends', () => {
+        let panel = createResizablePanel();
+        let args: ITracksResizedArgs = null;
+        panel.tracksResized.connect((sender, value) => { args = value; });
+        let handle = panel.node.querySelector('.p-mod-row') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 0, 100);
+        triggerMouseEvent(document.body, 'mousemove', 0, 80);
+        expect(args).to.be(null);
+        triggerMouseEvent(document.body, 'mouseup', 0, 80);
+        expect(args.axis).to.be('row');
+        expect(args.index).to.be(0);
+        expectArraysEqv(args.sizes, [80, 120]);
+        panel.dispose();
       });
 
-      it('should a pure delegate to the columnSpacingProperty', () => {
-        let panel = new GridPanel();
-        GridPanel.columnSpacingProperty.set(panel, 4);
-        expect(panel.columnSpacing).to.be(4);
-        panel.columnSpacing = 5;
-        let columnSpacing = GridPanel.columnSpacingProperty.get(panel);
-        expect(columnSpacing).to.be(5);
+      it('should ignore a press which is not on a handle', () => {
+        let panel = createResizablePanel();
+        let called = false;
+        panel.tracksResized.connect(() => { called = true; });
+        triggerMouseEvent(panel.node, 'mousedown', 50, 50);
+        triggerMouseEvent(document.body, 'mousemove', 80, 80);
+        triggerMouseEvent(document.body, 'mouseup', 80, 80);
+        expect(called).to.be(false);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(0);
+        panel.dispose();
       });
 
     });
@@ -729,6 +3532,21 @@ describe('phosphor-gridpanel', () => {
         panel.dispose();
       });
 
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        let widget = new Widget();
+        panel.addChild(widget);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        widget.remove();
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
     });
 
     describe('#onAfterShow()', () => {
@@ -778,31 +3596,99 @@ describe('phosphor-gridpanel', () => {
 
     });
 
-    describe('#onChildShown()', () => {
+    describe('#onBeforeDetach()', () => {
+
+      it('should be invoked when the panel is detached', () => {
+        let panel = new LogPanel();
+        panel.attach(document.body);
+        panel.detach();
+        expect(panel.messages.indexOf('before-detach')).to.not.be(-1);
+        panel.dispose();
+      });
+
+      it('should release an active handle drag', () => {
+        let panel = createResizablePanel();
+        let handle = panel.node.querySelector('.p-mod-column') as HTMLElement;
+        triggerMouseEvent(handle, 'mousedown', 100, 0);
+        panel.detach();
+        triggerMouseEvent(document.body, 'mousemove', 130, 0);
+        expect(panel.columnSpecs[0].sizeBasis).to.be(0);
+        panel.dispose();
+      });
+
+    });
+
+    describe('#onChildShown()', () => {
+
+      it('should be invoked when a child is shown', () => {
+        let panel = new LogPanel();
+        let widget = new Widget();
+        widget.hidden = true;
+        panel.addChild(widget);
+        panel.attach(document.body);
+        expect(panel.messages.indexOf('child-shown')).to.be(-1);
+        widget.hidden = false;
+        expect(panel.messages.indexOf('child-shown')).to.not.be(-1);
+        panel.dispose();
+      });
+
+      it('should post an `update-request`', (done) => {
+        let panel = new LogPanel();
+        let widget = new Widget();
+        widget.hidden = true;
+        panel.addChild(widget);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        widget.hidden = false;
+        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+      it('should post a `layout-request`', (done) => {
+        let panel = new LogPanel();
+        let widget = new Widget();
+        widget.hidden = true;
+        panel.addChild(widget);
+        panel.attach(document.body);
+        clearMessageData(panel);
+        widget.hidden = false;
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        requestAnimationFrame(() => {
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+          panel.dispose();
+          done();
+        });
+      });
+
+    });
+
+    describe('#onChildHidden()', () => {
 
-      it('should be invoked when a child is shown', () => {
+      it('should be invoked when a child is hidden', () => {
         let panel = new LogPanel();
         let widget = new Widget();
-        widget.hidden = true;
         panel.addChild(widget);
         panel.attach(document.body);
-        expect(panel.messages.indexOf('child-shown')).to.be(-1);
-        widget.hidden = false;
-        expect(panel.messages.indexOf('child-shown')).to.not.be(-1);
+        expect(panel.messages.indexOf('child-hidden')).to.be(-1);
+        widget.hidden = true;
+        expect(panel.messages.indexOf('child-hidden')).to.not.be(-1);
         panel.dispose();
       });
 
-      it('should post an `update-request`', (done) => {
+      it('should post a `layout-request`', (done) => {
         let panel = new LogPanel();
         let widget = new Widget();
-        widget.hidden = true;
         panel.addChild(widget);
         panel.attach(document.body);
         clearMessageData(panel);
-        widget.hidden = false;
-        expect(panel.messages.indexOf('update-request')).to.be(-1);
+        widget.hidden = true;
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
         requestAnimationFrame(() => {
-          expect(panel.messages.indexOf('update-request')).to.not.be(-1);
+          expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
           panel.dispose();
           done();
         });
@@ -900,6 +3786,34 @@ describe('phosphor-gridpanel', () => {
         panel.dispose();
       });
 
+      it('should remove the spacing around a collapsed column', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(1);
+        panel.columnSpacing = 10;
+        panel.columnSpecs[1].collapsed = true;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(panel.childAt(0).node.offsetWidth).to.be(145);
+        expect(child.node.offsetLeft).to.be(155);
+        expect(child.node.offsetWidth).to.be(145);
+        panel.dispose();
+      });
+
+      it('should hide a child within collapsed tracks', () => {
+        let panel = createOccupiedPanel();
+        let child = panel.childAt(0);
+        panel.rowSpecs[0].collapsed = true;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(child.hasClass('p-mod-collapsed')).to.be(true);
+        expect(panel.childAt(1).node.offsetHeight).to.be(200);
+        panel.rowSpecs[0].collapsed = false;
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        sendMessage(panel, Widget.MsgUpdateRequest);
+        expect(child.hasClass('p-mod-collapsed')).to.be(false);
+        panel.dispose();
+      });
+
     });
 
     describe('#onLayoutRequest()', () => {
@@ -936,6 +3850,97 @@ describe('phosphor-gridpanel', () => {
         panel.dispose();
       });
 
+      it('should grow auto sized tracks to fit the children', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.minWidth = '70px';
+        child.node.style.minHeight = '40px';
+        panel.rowSpecs = [new Spec({ sizing: Sizing.Auto })];
+        panel.columnSpecs = [new Spec({ sizing: Sizing.Auto, minSize: 80 })];
+        panel.addChild(child);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.node.style.minWidth).to.be('80px');
+        expect(panel.node.style.minHeight).to.be('40px');
+        panel.dispose();
+      });
+
+      it('should distribute a spanning child among the auto tracks', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.minHeight = '100px';
+        GridPanel.setRowSpan(child, 3);
+        panel.rowSpacing = 10;
+        panel.rowSpecs = [
+          new Spec({ sizing: Sizing.Auto }),
+          new Spec({ minSize: 20 }),
+          new Spec({ sizing: Sizing.Auto, maxSize: 10 })
+        ];
+        panel.columnSpecs = [new Spec()];
+        panel.addChild(child);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.node.style.minHeight).to.be('100px');
+        panel.dispose();
+      });
+
+      it('should grow fixed tracks to fit the children', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.minHeight = '100px';
+        panel.rowSpecs = [new Spec({ minSize: 20 })];
+        panel.columnSpecs = [new Spec({ minSize: 50 })];
+        panel.addChild(child);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.node.style.minHeight).to.be('100px');
+        panel.dispose();
+      });
+
+      it('should not grow tracks beyond their max size', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.minWidth = '300px';
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [new Spec({ minSize: 50, maxSize: 50 })];
+        panel.addChild(child);
+        layoutPanel(panel, 50, 100);
+        expect(panel.node.style.minWidth).to.be('50px');
+        expect(panel.node.style.maxWidth).to.be('50px');
+        expect(child.node.offsetWidth).to.be(300);
+        panel.dispose();
+      });
+
+      it('should fit a spanning child across the fixed tracks', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.minWidth = '200px';
+        GridPanel.setColumnSpan(child, 2);
+        panel.columnSpacing = 10;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [new Spec({ minSize: 50 }), new Spec({ minSize: 50 })];
+        panel.addChild(child);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.node.style.minWidth).to.be('200px');
+        panel.dispose();
+      });
+
+      it('should fit the children when they are stacked', () => {
+        let panel = new GridPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        child0.node.style.minWidth = '60px';
+        child1.node.style.minHeight = '70px';
+        panel.addChild(child0);
+        panel.addChild(child1);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.node.style.minWidth).to.be('60px');
+        expect(panel.node.style.minHeight).to.be('70px');
+        panel.dispose();
+      });
+
     });
 
     context('spec property change', () => {
@@ -973,6 +3978,27 @@ describe('phosphor-gridpanel', () => {
         panel.messages = [];
       });
 
+      it('should post a `layout-request` on implicit spec change', () => {
+        let panel = new LogPanel();
+        let rspec = new Spec();
+        let cspec = new Spec();
+        panel.autoRowSpec = rspec;
+        panel.autoColumnSpec = cspec;
+        sendPendingMessage(panel);
+        panel.messages = [];
+
+        rspec.minSize = 40;
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        sendPendingMessage(panel);
+        expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+        panel.messages = [];
+
+        cspec.maxSize = 150;
+        expect(panel.messages.indexOf('layout-request')).to.be(-1);
+        sendPendingMessage(panel);
+        expect(panel.messages.indexOf('layout-request')).to.not.be(-1);
+      });
+
     });
 
     context('resize behavior', () => {
@@ -1097,6 +4123,327 @@ describe('phosphor-gridpanel', () => {
         panel.dispose();
       });
 
+      it('should place the children into their named areas', () => {
+        let header = new Widget();
+        let nav = new Widget();
+        let main = new Widget();
+        GridPanel.setArea(header, 'header');
+        GridPanel.setArea(nav, 'nav');
+        GridPanel.setArea(main, 'main');
+        GridPanel.setRow(main, 0);
+        let panel = new GridPanel();
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec(), new Spec()];
+        panel.columnSpecs = [new Spec(), new Spec()];
+        panel.templateAreas = ['header header', 'nav main'];
+        panel.addChild(header);
+        panel.addChild(nav);
+        panel.addChild(main);
+        panel.node.style.position = 'absolute';
+        panel.node.style.top = '0px';
+        panel.node.style.left = '0px';
+        panel.node.style.width = '0px';
+        panel.node.style.height = '0px';
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        panel.node.style.width = '100px';
+        panel.node.style.height = '100px';
+        sendMessage(panel, new ResizeMessage(100, 100));
+        expect(header.node.offsetTop).to.be(0);
+        expect(header.node.offsetLeft).to.be(0);
+        expect(header.node.offsetWidth).to.be(100);
+        expect(header.node.offsetHeight).to.be(50);
+        expect(nav.node.offsetTop).to.be(50);
+        expect(nav.node.offsetLeft).to.be(0);
+        expect(nav.node.offsetWidth).to.be(50);
+        expect(main.node.offsetTop).to.be(50);
+        expect(main.node.offsetLeft).to.be(50);
+        expect(main.node.offsetWidth).to.be(50);
+        panel.dispose();
+      });
+
+      it('should auto place the children by row', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget(), new Widget()];
+        GridPanel.setColumn(children[1], 1);
+        GridPanel.setAutoPlace(children[0], true);
+        GridPanel.setAutoPlace(children[2], true);
+        GridPanel.setAutoPlace(children[3], true);
+        panel.autoFlow = AutoFlow.Row;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 200);
+        expectCell(children[0], 0, 0);
+        expectCell(children[1], 0, 1);
+        expectCell(children[2], 1, 0);
+        expectCell(children[3], 1, 1);
+        panel.dispose();
+      });
+
+      it('should not auto place a child without the auto place flag', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget()];
+        GridPanel.setRowSpan(children[1], 2);
+        GridPanel.setColumnSpan(children[1], 2);
+        GridPanel.setRow(children[2], 1);
+        GridPanel.setAutoPlace(children[0], true);
+        GridPanel.setAutoPlace(children[2], true);
+        panel.autoFlow = AutoFlow.Row;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(3);
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 300);
+        expectCell(children[0], 2, 0);
+        expectCell(children[1], 0, 0);
+        expectCell(children[2], 2, 1);
+        panel.dispose();
+      });
+
+      it('should auto place the children by column', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget()];
+        GridPanel.setRow(children[0], 1);
+        GridPanel.setAutoPlace(children[1], true);
+        GridPanel.setAutoPlace(children[2], true);
+        panel.autoFlow = AutoFlow.Column;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 200);
+        expectCell(children[0], 1, 0);
+        expectCell(children[1], 0, 0);
+        expectCell(children[2], 0, 1);
+        panel.dispose();
+      });
+
+      it('should skip cells which do not fit the span', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget()];
+        GridPanel.setColumnSpan(children[0], 2);
+        GridPanel.setColumnSpan(children[1], 2);
+        children.forEach(child => { GridPanel.setAutoPlace(child, true); });
+        panel.autoFlow = AutoFlow.Row;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(3);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 300, 200);
+        expectCell(children[0], 0, 0);
+        expectCell(children[1], 1, 0);
+        expectCell(children[2], 1, 2);
+        panel.dispose();
+      });
+
+      it('should fill earlier holes in dense mode', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget()];
+        GridPanel.setColumnSpan(children[0], 2);
+        GridPanel.setColumnSpan(children[1], 2);
+        children.forEach(child => { GridPanel.setAutoPlace(child, true); });
+        panel.autoFlow = AutoFlow.RowDense;
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(2);
+        panel.columnSpecs = createSpecs(3);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 300, 200);
+        expectCell(children[0], 0, 0);
+        expectCell(children[1], 1, 0);
+        expectCell(children[2], 0, 2);
+        panel.dispose();
+      });
+
+      it('should clamp out-of-range children to the last track', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        GridPanel.setRow(child, 5);
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(3);
+        panel.columnSpecs = createSpecs(1);
+        panel.addChild(child);
+        layoutPanel(panel, 100, 300);
+        expectCell(child, 2, 0);
+        panel.dispose();
+      });
+
+      it('should create implicit tracks for out-of-range children', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        GridPanel.setRow(child, 2);
+        GridPanel.setColumn(child, 1);
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec({ sizeBasis: 100, stretch: 0 })];
+        panel.columnSpecs = [new Spec({ sizeBasis: 100, stretch: 0 })];
+        panel.autoRowSpec = new Spec({ sizeBasis: 100, minSize: 20, stretch: 0 });
+        panel.autoColumnSpec = new Spec({ sizeBasis: 100, minSize: 30, stretch: 0 });
+        panel.addChild(child);
+        layoutPanel(panel, 200, 300);
+        expect(panel.node.style.minHeight).to.be('40px');
+        expect(panel.node.style.minWidth).to.be('30px');
+        expectCell(child, 2, 1);
+        expect(child.node.offsetHeight).to.be(100);
+        expect(child.node.offsetWidth).to.be(100);
+        panel.dispose();
+      });
+
+      it('should create implicit tracks for auto placed children', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget(), new Widget()];
+        children.forEach(child => { GridPanel.setAutoPlace(child, true); });
+        panel.autoFlow = AutoFlow.Row;
+        panel.autoRowSpec = new Spec();
+        panel.rowSpacing = 0;
+        panel.columnSpacing = 0;
+        panel.rowSpecs = createSpecs(1);
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 200);
+        expectCell(children[0], 0, 0);
+        expectCell(children[1], 0, 1);
+        expectCell(children[2], 1, 0);
+        expect(children[2].node.offsetHeight).to.be(100);
+        panel.dispose();
+      });
+
+      it('should size auto tracks to fit their content', () => {
+        let panel = new GridPanel();
+        let child0 = new Widget();
+        let child1 = new Widget();
+        child0.node.style.minHeight = '40px';
+        GridPanel.setRow(child1, 1);
+        panel.rowSpacing = 0;
+        panel.rowSpecs = [
+          new Spec({ sizing: Sizing.Auto, stretch: 0 }),
+          new Spec()
+        ];
+        panel.columnSpecs = [new Spec()];
+        panel.addChild(child0);
+        panel.addChild(child1);
+        panel.node.style.position = 'absolute';
+        panel.node.style.top = '0px';
+        panel.node.style.left = '0px';
+        panel.node.style.width = '0px';
+        panel.node.style.height = '0px';
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        panel.node.style.width = '100px';
+        panel.node.style.height = '100px';
+        sendMessage(panel, new ResizeMessage(100, 100));
+        expect(child0.node.offsetTop).to.be(0);
+        expect(child0.node.offsetHeight).to.be(40);
+        expect(child1.node.offsetTop).to.be(40);
+        expect(child1.node.offsetHeight).to.be(60);
+        panel.dispose();
+      });
+
+      it('should distribute space by fractional stretch factors', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget()];
+        GridPanel.setColumn(children[1], 1);
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [
+          new Spec({ stretch: 0.5 }),
+          new Spec({ stretch: 1.5 })
+        ];
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 400, 100);
+        expect(children[0].node.offsetWidth).to.be(100);
+        expect(children[1].node.offsetLeft).to.be(100);
+        expect(children[1].node.offsetWidth).to.be(300);
+        panel.dispose();
+      });
+
+      it('should resolve percent tracks against the available space', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget()];
+        GridPanel.setColumn(children[1], 1);
+        panel.columnSpacing = 20;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [
+          new Spec({ sizing: Sizing.Percent, sizeBasis: 25, stretch: 0 }),
+          new Spec()
+        ];
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 420, 100);
+        expect(children[0].node.offsetWidth).to.be(100);
+        expect(children[1].node.offsetLeft).to.be(120);
+        expect(children[1].node.offsetWidth).to.be(300);
+        layoutPanel(panel, 820, 100);
+        expect(children[0].node.offsetWidth).to.be(200);
+        panel.dispose();
+      });
+
+      it('should align children within their cells', () => {
+        let panel = new GridPanel();
+        let children = [new Widget(), new Widget()];
+        children.forEach(child => {
+          child.node.style.maxWidth = '40px';
+          child.node.style.maxHeight = '20px';
+        });
+        GridPanel.setColumn(children[1], 1);
+        GridPanel.setHorizontalAlignment(children[0], Alignment.Center);
+        GridPanel.setVerticalAlignment(children[0], Alignment.End);
+        GridPanel.setHorizontalAlignment(children[1], Alignment.End);
+        panel.columnSpacing = 0;
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = createSpecs(2);
+        children.forEach(child => { panel.addChild(child); });
+        layoutPanel(panel, 200, 100);
+        expect(children[0].node.offsetLeft).to.be(30);
+        expect(children[0].node.offsetTop).to.be(80);
+        expect(children[1].node.offsetLeft).to.be(160);
+        expect(children[1].node.offsetTop).to.be(0);
+        panel.dispose();
+      });
+
+      it('should inset children by their margins', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        GridPanel.setMarginTop(child, 5);
+        GridPanel.setMarginRight(child, 10);
+        GridPanel.setMarginBottom(child, 15);
+        GridPanel.setMarginLeft(child, 20);
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [new Spec()];
+        panel.addChild(child);
+        layoutPanel(panel, 200, 100);
+        expect(child.node.offsetLeft).to.be(20);
+        expect(child.node.offsetTop).to.be(5);
+        expect(child.node.offsetWidth).to.be(170);
+        expect(child.node.offsetHeight).to.be(80);
+        panel.dispose();
+      });
+
+      it('should include the margins in the min size of the tracks', () => {
+        let panel = new GridPanel();
+        let child = new Widget();
+        child.node.style.minWidth = '50px';
+        child.node.style.minHeight = '30px';
+        GridPanel.setMarginLeft(child, 10);
+        GridPanel.setMarginRight(child, 10);
+        GridPanel.setMarginTop(child, 5);
+        panel.rowSpecs = [new Spec()];
+        panel.columnSpecs = [new Spec()];
+        panel.addChild(child);
+        panel.attach(document.body);
+        sendMessage(panel, Widget.MsgLayoutRequest);
+        expect(panel.node.style.minWidth).to.be('70px');
+        expect(panel.node.style.minHeight).to.be('35px');
+        panel.dispose();
+      });
+
     });
 
   });
@@ -1203,9 +4550,9 @@ describe('phosphor-gridpanel', () => {
         expect(Spec.stretchProperty.get(spec)).to.be(1);
       });
 
-      it('should floor fractional values', () => {
+      it('should allow fractional values', () => {
         let spec = new Spec({ stretch: 4.5 });
-        expect(Spec.stretchProperty.get(spec)).to.be(4);
+        expect(Spec.stretchProperty.get(spec)).to.be(4.5);
       });
 
       it('should be clamped to a lower bound of `0`', () => {
@@ -1215,6 +4562,48 @@ describe('phosphor-gridpanel', () => {
 
     });
 
+    describe('.sizingProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(Spec.sizingProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `sizing`', () => {
+        expect(Spec.sizingProperty.name).to.be('sizing');
+      });
+
+      it('should notify using the `changedSignal`', () => {
+        expect(Spec.sizingProperty.notify).to.be(Spec.changedSignal);
+      });
+
+      it('should default to `Sizing.Fixed`', () => {
+        let spec = new Spec();
+        expect(Spec.sizingProperty.get(spec)).to.be(Sizing.Fixed);
+      });
+
+    });
+
+    describe('.collapsedProperty', () => {
+
+      it('should be a property descriptor', () => {
+        expect(Spec.collapsedProperty instanceof Property).to.be(true);
+      });
+
+      it('should have the name `collapsed`', () => {
+        expect(Spec.collapsedProperty.name).to.be('collapsed');
+      });
+
+      it('should notify using the `changedSignal`', () => {
+        expect(Spec.collapsedProperty.notify).to.be(Spec.changedSignal);
+      });
+
+      it('should default to `false`', () => {
+        let spec = new Spec();
+        expect(Spec.collapsedProperty.get(spec)).to.be(false);
+      });
+
+    });
+
     describe('#constructor()', () => {
 
       it('should accept no arguments', () => {
@@ -1227,6 +4616,11 @@ describe('phosphor-gridpanel', () => {
         expect(spec instanceof Spec).to.be(true);
       });
 
+      it('should accept a sizing mode', () => {
+        let spec = new Spec({ sizing: Sizing.Auto });
+        expect(spec.sizing).to.be(Sizing.Auto);
+      });
+
     });
 
     describe('#changed', () => {
@@ -1382,6 +4776,66 @@ describe('phosphor-gridpanel', () => {
 
     });
 
+    describe('#sizing', () => {
+
+      it('should get the sizing mode for the spec', () => {
+        let spec = new Spec();
+        expect(spec.sizing).to.be(Sizing.Fixed);
+      });
+
+      it('should set the sizing mode for the spec', () => {
+        let spec = new Spec();
+        spec.sizing = Sizing.Auto;
+        expect(spec.sizing).to.be(Sizing.Auto);
+      });
+
+      it('should a pure delegate to the sizingProperty', () => {
+        let spec = new Spec();
+        Spec.sizingProperty.set(spec, Sizing.Auto);
+        expect(spec.sizing).to.be(Sizing.Auto);
+        spec.sizing = Sizing.Fixed;
+        let sizing = Spec.sizingProperty.get(spec);
+        expect(sizing).to.be(Sizing.Fixed);
+      });
+
+      it('should emit the changed signal', () => {
+        let spec = new Spec();
+        let args: IChangedArgs<any> = null;
+        spec.changed.connect((s, a) => { args = a; });
+        spec.sizing = Sizing.Auto;
+        expect(args).to.eql({
+          name: 'sizing',
+          oldValue: Sizing.Fixed,
+          newValue: Sizing.Auto,
+        });
+      });
+
+    });
+
+    describe('#collapsed', () => {
+
+      it('should get whether the spec is collapsed', () => {
+        let spec = new Spec();
+        expect(spec.collapsed).to.be(false);
+      });
+
+      it('should set whether the spec is collapsed', () => {
+        let spec = new Spec();
+        spec.collapsed = true;
+        expect(spec.collapsed).to.be(true);
+      });
+
+      it('should a pure delegate to the collapsedProperty', () => {
+        let spec = new Spec();
+        Spec.collapsedProperty.set(spec, true);
+        expect(spec.collapsed).to.be(true);
+        spec.collapsed = false;
+        let collapsed = Spec.collapsedProperty.get(spec);
+        expect(collapsed).to.be(false);
+      });
+
+    });
+
   });
 
 });
@@ -0,0 +1,126 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2015, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+'use strict';
+
+import expect = require('expect.js');
+
+import {
+  Alignment, IGridItem, IGridSpacing, Spec, computeGridLayout
+} from '../../lib/layout';
+
+
+function createSpecs(count: number): Spec[] {
+  let specs: Spec[] = [];
+  for (let i = 0; i < count; ++i) specs.push(new Spec());
+  return specs;
+}
+
+
+describe('phosphor-gridpanel/lib/layout', () => {
+
+  describe('computeGridLayout()', () => {
+
+    let spacing: IGridSpacing = { rowSpacing: 0, columnSpacing: 0 };
+
+    function item(row: number, column: number, rowSpan = 1, columnSpan = 1): IGridItem {
+      return { row, column, rowSpan, columnSpan };
+    }
+
+    it('should compute the track geometry for the items', () => {
+      let spacing = { rowSpacing: 10, columnSpacing: 20 };
+      let layout = computeGridLayout(
+        createSpecs(2), createSpecs(3), spacing, [item(0, 0)], 340, 210
+      );
+      expect(layout.rowOffsets).to.eql([0, 110]);
+      expect(layout.rowSizes).to.eql([100, 100]);
+      expect(layout.columnOffsets).to.eql([0, 120, 240]);
+      expect(layout.columnSizes).to.eql([100, 100, 100]);
+    });
+
+    it('should compute the rect of each item within its cells', () => {
+      let items = [item(0, 0), item(1, 1, 1, 2)];
+      items[0].maxWidth = 50;
+      items[0].horizontalAlignment = Alignment.Center;
+      items[1].marginTop = 10;
+      let layout = computeGridLayout(
+        createSpecs(2), createSpecs(3), spacing, items, 300, 200
+      );
+      expect(layout.rowSizes).to.eql([95, 105]);
+      expect(layout.rects).to.eql([
+        { top: 0, left: 25, width: 50, height: 95 },
+        { top: 105, left: 100, width: 200, height: 95 },
+      ]);
+    });
+
+    it('should grow the tracks to fit the min size of the items', () => {
+      let items = [item(0, 0)];
+      items[0].minWidth = 250;
+      let layout = computeGridLayout(
+        createSpecs(1), createSpecs(2), spacing, items, 300, 100
+      );
+      expect(layout.columnSizes).to.eql([275, 25]);
+    });
+
+    it('should not grow the tracks beyond their max size', () => {
+      let items = [item(0, 0)];
+      items[0].minWidth = 250;
+      let colSpecs = [new Spec({ maxSize: 100 }), new Spec({ maxSize: 100 })];
+      let layout = computeGridLayout(
+        createSpecs(1), colSpecs, spacing, items, 200, 100
+      );
+      expect(layout.columnSizes).to.eql([100, 100]);
+      expect(layout.rects[0].width).to.be(250);
+    });
+
+    it('should mirror the columns for a right-to-left layout', () => {
+      let layout = computeGridLayout(
+        createSpecs(1), createSpecs(3), spacing, [item(0, 0)], 300, 100,
+        { rightToLeft: true }
+      );
+      expect(layout.columnOffsets).to.eql([200, 100, 0]);
+      expect(layout.rects[0].left).to.be(200);
+    });
+
+    it('should anchor an overflowing item to the right edge', () => {
+      let items = [item(0, 0)];
+      items[0].minWidth = 150;
+      let layout = computeGridLayout(
+        createSpecs(1), [], spacing, items, 100, 100, { rightToLeft: true }
+      );
+      expect(layout.rects).to.eql([{ top: 0, left: -50, width: 150, height: 100 }]);
+    });
+
+    it('should collapse the tracks with only hidden items', () => {
+      let items = [item(0, 0), item(0, 1)];
+      items[0].hidden = true;
+      let layout = computeGridLayout(
+        createSpecs(1), createSpecs(2), spacing, items, 300, 100,
+        { collapseHidden: true }
+      );
+      expect(layout.columnSizes).to.eql([0, 300]);
+    });
+
+    it('should stack the items if there are no columns', () => {
+      let layout = computeGridLayout(
+        createSpecs(2), [], spacing, [item(1, 1)], 300, 200
+      );
+      expect(layout.rowOffsets).to.eql([]);
+      expect(layout.columnSizes).to.eql([]);
+      expect(layout.rects).to.eql([{ top: 0, left: 0, width: 300, height: 200 }]);
+    });
+
+    it('should not modify the items', () => {
+      let items = [item(0, 0)];
+      computeGridLayout(createSpecs(1), createSpecs(1), spacing, items, 100, 100);
+      expect(items).to.eql([{ row: 0, column: 0, rowSpan: 1, columnSpan: 1 }]);
+    });
+
+  });
+
+
+});